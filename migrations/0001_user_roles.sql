@@ -0,0 +1,4 @@
+-- 为已有数据库的用户表增加角色和停用时间字段
+-- 新建数据库直接执行 schema.sql 即可，无需执行本文件
+ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'user'; -- user / ops / admin
+ALTER TABLE users ADD COLUMN disabled_at DATETIME;
@@ -0,0 +1,17 @@
+-- 幂等键按接口区分并记录占用标识，需要修改主键，因此重建幂等键表
+-- 幂等键只保留一天，重建时直接丢弃已有记录；旧版本数据库没有该表时同样适用
+-- 新建数据库直接执行 schema.sql 即可，无需执行本文件
+DROP TABLE IF EXISTS idempotency_keys;
+
+CREATE TABLE idempotency_keys (
+  user_id INTEGER NOT NULL,
+  endpoint TEXT NOT NULL, -- 请求方法和路径，如 POST /api/orders
+  idempotency_key TEXT NOT NULL,
+  request_hash TEXT NOT NULL,
+  claim_id TEXT NOT NULL UNIQUE,
+  response_status INTEGER,
+  response_body TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (user_id, endpoint, idempotency_key),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
@@ -0,0 +1,16 @@
+-- 为已有数据库增加库存预留表
+-- 新建数据库直接执行 schema.sql 即可，无需执行本文件
+
+-- 库存预留表
+CREATE TABLE IF NOT EXISTS stock_reservations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  order_id TEXT NOT NULL,
+  product_id TEXT NOT NULL,
+  quantity INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'held', -- held / committed / released
+  expires_at DATETIME NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_product ON stock_reservations(product_id, status, expires_at);
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_order ON stock_reservations(order_id);
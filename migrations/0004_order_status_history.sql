@@ -0,0 +1,16 @@
+-- 为已有数据库增加订单状态历史表
+-- 新建数据库直接执行 schema.sql 即可，无需执行本文件
+
+-- 订单状态历史表
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  order_id TEXT NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changed_by TEXT,
+  source TEXT NOT NULL,
+  event_id TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order ON order_status_history(order_id, id);
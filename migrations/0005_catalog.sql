@@ -0,0 +1,36 @@
+-- 为已有数据库增加商品目录镜像表、分类镜像表和同步状态表
+-- 目录表按当前结构创建（包含规格和上新排序所需字段），数据由定时同步写入
+-- 新建数据库直接执行 schema.sql 即可，无需执行本文件
+
+-- 商品目录镜像表（定时从飞书库存表同步）
+CREATE TABLE IF NOT EXISTS catalog_products (
+  record_id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  type TEXT,
+  price REAL NOT NULL DEFAULT 0,
+  stock INTEGER NOT NULL DEFAULT 0,
+  unit TEXT,
+  description TEXT,
+  image_token TEXT,
+  parent_id TEXT, -- 规格所属的父商品
+  options TEXT, -- 规格选项值（JSON）
+  created_at DATETIME, -- 飞书记录创建时间，用于按上新排序
+  synced_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 商品分类镜像表
+CREATE TABLE IF NOT EXISTS catalog_categories (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  color INTEGER,
+  position INTEGER NOT NULL
+);
+
+-- 同步状态表
+CREATE TABLE IF NOT EXISTS sync_state (
+  name TEXT PRIMARY KEY,
+  synced_at DATETIME
+);
+
+CREATE INDEX IF NOT EXISTS idx_catalog_products_type ON catalog_products(type);
+CREATE INDEX IF NOT EXISTS idx_catalog_products_parent ON catalog_products(parent_id);
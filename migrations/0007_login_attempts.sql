@@ -0,0 +1,25 @@
+-- 为已有数据库增加登录失败计数表和登录锁定事件表
+-- 新建数据库直接执行 schema.sql 即可，无需执行本文件
+
+-- 登录失败计数表（按用户名和IP分别计数）
+CREATE TABLE IF NOT EXISTS login_attempts (
+  scope TEXT NOT NULL,
+  identifier TEXT NOT NULL,
+  failures INTEGER NOT NULL DEFAULT 0,
+  locked_until DATETIME,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (scope, identifier)
+);
+
+-- 登录锁定事件表（供运维查询）
+CREATE TABLE IF NOT EXISTS lockout_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  scope TEXT NOT NULL,
+  identifier TEXT NOT NULL,
+  failures INTEGER NOT NULL,
+  ip TEXT,
+  locked_until DATETIME NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_lockout_events_created ON lockout_events(created_at);
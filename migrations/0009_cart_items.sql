@@ -0,0 +1,15 @@
+-- 为已有数据库增加购物车表
+-- 新建数据库直接执行 schema.sql 即可，无需执行本文件
+
+-- 购物车表
+CREATE TABLE IF NOT EXISTS cart_items (
+  user_id INTEGER NOT NULL,
+  product_id TEXT NOT NULL,
+  quantity INTEGER NOT NULL,
+  selected INTEGER NOT NULL DEFAULT 1,
+  added_price REAL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (user_id, product_id),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
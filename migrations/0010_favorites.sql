@@ -0,0 +1,11 @@
+-- 为已有数据库增加收藏表
+-- 新建数据库直接执行 schema.sql 即可，无需执行本文件
+
+-- 收藏表（飞书商品记录ID）
+CREATE TABLE IF NOT EXISTS favorites (
+  user_id INTEGER NOT NULL,
+  product_id TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (user_id, product_id),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
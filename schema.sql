@@ -4,6 +4,8 @@ CREATE TABLE users (
   username TEXT UNIQUE NOT NULL,
   password_hash TEXT NOT NULL,
   notes TEXT,
+  role TEXT NOT NULL DEFAULT 'user', -- user / ops / admin
+  disabled_at DATETIME,
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
@@ -20,7 +22,150 @@ CREATE TABLE addresses (
   FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
 );
 
+-- 库存预留表
+CREATE TABLE stock_reservations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  order_id TEXT NOT NULL,
+  product_id TEXT NOT NULL,
+  quantity INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'held', -- held / committed / released
+  expires_at DATETIME NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 幂等键表，created_at 为最近一次占用时间
+CREATE TABLE idempotency_keys (
+  user_id INTEGER NOT NULL,
+  endpoint TEXT NOT NULL, -- 请求方法和路径，如 POST /api/orders
+  idempotency_key TEXT NOT NULL,
+  request_hash TEXT NOT NULL,
+  claim_id TEXT NOT NULL UNIQUE,
+  response_status INTEGER,
+  response_body TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (user_id, endpoint, idempotency_key),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- 订单状态历史表
+CREATE TABLE order_status_history (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  order_id TEXT NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changed_by TEXT,
+  source TEXT NOT NULL,
+  event_id TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 商品目录镜像表（定时从飞书库存表同步）
+CREATE TABLE catalog_products (
+  record_id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  type TEXT,
+  price REAL NOT NULL DEFAULT 0,
+  stock INTEGER NOT NULL DEFAULT 0,
+  unit TEXT,
+  description TEXT,
+  image_token TEXT,
+  parent_id TEXT, -- 规格所属的父商品
+  options TEXT, -- 规格选项值（JSON）
+  created_at DATETIME, -- 飞书记录创建时间，用于按上新排序
+  synced_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 商品分类镜像表
+CREATE TABLE catalog_categories (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  color INTEGER,
+  position INTEGER NOT NULL
+);
+
+-- 同步状态表
+CREATE TABLE sync_state (
+  name TEXT PRIMARY KEY,
+  synced_at DATETIME
+);
+
+-- 刷新令牌表（只保存令牌哈希，同一会话的令牌属于同一个family）
+CREATE TABLE refresh_tokens (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  family_id TEXT NOT NULL,
+  token_hash TEXT UNIQUE NOT NULL,
+  expires_at DATETIME NOT NULL,
+  revoked_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- 登录失败计数表（按用户名和IP分别计数）
+CREATE TABLE login_attempts (
+  scope TEXT NOT NULL,
+  identifier TEXT NOT NULL,
+  failures INTEGER NOT NULL DEFAULT 0,
+  locked_until DATETIME,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (scope, identifier)
+);
+
+-- 登录锁定事件表（供运维查询）
+CREATE TABLE lockout_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  scope TEXT NOT NULL,
+  identifier TEXT NOT NULL,
+  failures INTEGER NOT NULL,
+  ip TEXT,
+  locked_until DATETIME NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 密码重置码表（只保存重置码哈希）
+CREATE TABLE password_reset_codes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  code_hash TEXT NOT NULL,
+  issued_by INTEGER,
+  expires_at DATETIME NOT NULL,
+  used_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- 购物车表
+CREATE TABLE cart_items (
+  user_id INTEGER NOT NULL,
+  product_id TEXT NOT NULL,
+  quantity INTEGER NOT NULL,
+  selected INTEGER NOT NULL DEFAULT 1,
+  added_price REAL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (user_id, product_id),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- 收藏表（飞书商品记录ID）
+CREATE TABLE favorites (
+  user_id INTEGER NOT NULL,
+  product_id TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (user_id, product_id),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
 -- 创建索引
 CREATE INDEX idx_users_username ON users(username);
 CREATE INDEX idx_addresses_user_id ON addresses(user_id);
-CREATE INDEX idx_addresses_default ON addresses(user_id, is_default);
\ No newline at end of file
+CREATE INDEX idx_addresses_default ON addresses(user_id, is_default);
+CREATE INDEX idx_stock_reservations_product ON stock_reservations(product_id, status, expires_at);
+CREATE INDEX idx_stock_reservations_order ON stock_reservations(order_id);
+CREATE INDEX idx_order_status_history_order ON order_status_history(order_id, id);
+CREATE INDEX idx_catalog_products_type ON catalog_products(type);
+CREATE INDEX idx_catalog_products_parent ON catalog_products(parent_id);
+CREATE INDEX idx_refresh_tokens_family ON refresh_tokens(family_id, revoked_at);
+CREATE INDEX idx_refresh_tokens_user ON refresh_tokens(user_id);
+CREATE INDEX idx_lockout_events_created ON lockout_events(created_at);
+CREATE INDEX idx_password_reset_codes_user ON password_reset_codes(user_id, used_at);
\ No newline at end of file
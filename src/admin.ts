@@ -0,0 +1,266 @@
+/**
+ * 管理后台模块
+ * 处理运营和管理员操作：订单管理、用户查询、备注、停用/启用、签发重置码
+ */
+
+import type { Env } from './index';
+import { authenticate, type AuthUser } from './auth';
+import { countUserOrders, registerAdminOrderRoutes } from './orders';
+import { generateRandomString, sha256Hex } from './utils/crypto';
+import { revokeUserSessions } from './utils/session';
+import { STAFF_ROLES, isRole, type Role } from './utils/roles';
+import type { Router } from './utils/router';
+import * as s from './utils/schema';
+import { errorResponse, jsonResponse } from './utils/response';
+
+/**
+ * 重置码有效期（秒）
+ */
+const RESET_CODE_TTL = 30 * 60;
+
+/**
+ * 重置码字符集（去除易混淆的 0/O、1/I/L）
+ */
+const RESET_CODE_CHARS = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+/**
+ * 用户列表分页配置
+ */
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * 编辑用户备注请求体
+ */
+const notesSchema = s.object({
+  notes: s.string()
+});
+
+type NotesPayload = s.Infer<typeof notesSchema>;
+
+/**
+ * 注册管理后台路由
+ * 运营和管理员均可管理订单、查询用户、编辑备注；停用/启用账户和签发重置码仅限管理员
+ */
+export function registerAdminRoutes(router: Router): void {
+  const staff = authenticate(STAFF_ROLES);
+  const admin = authenticate(['admin']);
+
+  registerAdminOrderRoutes(router);
+
+  router.get('/api/admin/users', [staff], ({ request, env }) => listUsers(request, env));
+  router.get('/api/admin/users/:id(\\d+)', [staff], ({ env, params }) => getUserDetail(parseInt(params.id, 10), env));
+  router.put('/api/admin/users/:id(\\d+)/notes', [staff, s.jsonBody(notesSchema)], ({ env, params, body }) =>
+    updateUserNotes(body, parseInt(params.id, 10), env));
+  router.post('/api/admin/users/:id(\\d+)/disable', [admin], ({ env, user, params }) => setUserDisabled(parseInt(params.id, 10), true, user, env));
+  router.post('/api/admin/users/:id(\\d+)/enable', [admin], ({ env, user, params }) => setUserDisabled(parseInt(params.id, 10), false, user, env));
+  router.post('/api/admin/users/:id(\\d+)/reset-code', [admin], ({ env, user, params }) => issueResetCode(parseInt(params.id, 10), user, env));
+}
+
+/**
+ * 用户列表
+ * 支持按用户名/备注搜索（q）、角色（role）、状态（status=active|disabled）筛选，分页参数 page、pageSize
+ */
+async function listUsers(request: Request, env: Env): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const keyword = url.searchParams.get('q')?.trim() || '';
+    const role = url.searchParams.get('role') || '';
+    const status = url.searchParams.get('status') || '';
+    const page = Math.max(1, parseInt(url.searchParams.get('page') || '1', 10) || 1);
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(url.searchParams.get('pageSize') || '', 10) || DEFAULT_PAGE_SIZE));
+
+    if (role && !isRole(role)) {
+      return errorResponse('ROLE_INVALID', { role });
+    }
+
+    if (status && status !== 'active' && status !== 'disabled') {
+      return errorResponse('ACCOUNT_STATUS_INVALID', { status });
+    }
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (keyword) {
+      conditions.push("(username LIKE ? ESCAPE '\\' OR notes LIKE ? ESCAPE '\\')");
+      const pattern = `%${keyword.replace(/[\\%_]/g, '\\$&')}%`;
+      params.push(pattern, pattern);
+    }
+
+    if (role) {
+      conditions.push('role = ?');
+      params.push(role);
+    }
+
+    if (status) {
+      conditions.push(status === 'disabled' ? 'disabled_at IS NOT NULL' : 'disabled_at IS NULL');
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const [countResult, listResult] = await env.DB.batch([
+      env.DB.prepare(`SELECT COUNT(*) as total FROM users ${where}`).bind(...params),
+      env.DB.prepare(
+        `SELECT id, username, notes, role, disabled_at, created_at FROM users ${where} ORDER BY id DESC LIMIT ? OFFSET ?`
+      ).bind(...params, pageSize, (page - 1) * pageSize)
+    ]);
+
+    return jsonResponse({
+      success: true,
+      users: (listResult.results || []).map(formatUser),
+      total: countResult.results?.[0]?.total || 0,
+      page,
+      pageSize
+    });
+  } catch (error) {
+    console.error('List users error:', error);
+    return errorResponse('USER_LIST_FAILED');
+  }
+}
+
+/**
+ * 用户详情：基本信息、收货地址和订单数
+ */
+async function getUserDetail(userId: number, env: Env): Promise<Response> {
+  try {
+    const user = await env.DB.prepare(
+      'SELECT id, username, notes, role, disabled_at, created_at FROM users WHERE id = ?'
+    ).bind(userId).first();
+
+    if (!user) {
+      return errorResponse('USER_NOT_FOUND');
+    }
+
+    const addresses = await env.DB.prepare(
+      'SELECT * FROM addresses WHERE user_id = ? ORDER BY is_default DESC, created_at DESC'
+    ).bind(userId).all();
+
+    // 订单数来自飞书，查询失败时不影响其他信息展示
+    let orderCount: number | null = null;
+    try {
+      orderCount = await countUserOrders(env, user.username);
+    } catch (error) {
+      console.error('Count user orders error:', error);
+    }
+
+    return jsonResponse({
+      success: true,
+      user: formatUser(user),
+      addresses: addresses.results || [],
+      orderCount
+    });
+  } catch (error) {
+    console.error('Get user detail error:', error);
+    return errorResponse('USER_FETCH_FAILED');
+  }
+}
+
+/**
+ * 编辑用户备注
+ */
+async function updateUserNotes(body: NotesPayload, userId: number, env: Env): Promise<Response> {
+  try {
+    const { notes } = body;
+
+    const result = await env.DB.prepare(
+      'UPDATE users SET notes = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?'
+    ).bind(notes, userId).run();
+
+    if (result.meta.changes === 0) {
+      return errorResponse('USER_NOT_FOUND');
+    }
+
+    return jsonResponse({
+      success: true,
+      message: '备注已更新'
+    });
+  } catch (error) {
+    console.error('Update user notes error:', error);
+    return errorResponse('NOTES_UPDATE_FAILED');
+  }
+}
+
+/**
+ * 停用或启用账户
+ * 停用后吊销该用户全部会话，已签发的访问令牌在下一次请求时被拒绝
+ */
+async function setUserDisabled(userId: number, disabled: boolean, admin: AuthUser, env: Env): Promise<Response> {
+  try {
+    if (disabled && userId === admin.userId) {
+      return errorResponse('CANNOT_DISABLE_SELF');
+    }
+
+    const result = await env.DB.prepare(
+      `UPDATE users SET disabled_at = ${disabled ? 'COALESCE(disabled_at, CURRENT_TIMESTAMP)' : 'NULL'}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`
+    ).bind(userId).run();
+
+    if (result.meta.changes === 0) {
+      return errorResponse('USER_NOT_FOUND');
+    }
+
+    if (disabled) {
+      await revokeUserSessions(env, userId);
+    }
+
+    return jsonResponse({
+      success: true,
+      message: disabled ? '账户已停用' : '账户已启用'
+    });
+  } catch (error) {
+    console.error('Set user disabled error:', error);
+    return errorResponse(disabled ? 'USER_DISABLE_FAILED' : 'USER_ENABLE_FAILED');
+  }
+}
+
+/**
+ * 格式化用户记录
+ */
+function formatUser(user: any): { id: number; username: string; notes: string; role: Role; disabled: boolean; disabledAt: string | null; createdAt: string } {
+  return {
+    id: user.id,
+    username: user.username,
+    notes: user.notes || '',
+    role: user.role,
+    disabled: !!user.disabled_at,
+    disabledAt: user.disabled_at || null,
+    createdAt: user.created_at
+  };
+}
+
+/**
+ * 为用户签发一次性密码重置码
+ * 新的重置码签发后，该用户之前未使用的重置码全部作废
+ */
+async function issueResetCode(userId: number, admin: AuthUser, env: Env): Promise<Response> {
+  try {
+    const targetUser = await env.DB.prepare(
+      'SELECT id, username FROM users WHERE id = ?'
+    ).bind(userId).first();
+
+    if (!targetUser) {
+      return errorResponse('USER_NOT_FOUND');
+    }
+
+    const code = generateRandomString(8, RESET_CODE_CHARS);
+
+    await env.DB.batch([
+      env.DB.prepare(
+        'UPDATE password_reset_codes SET used_at = CURRENT_TIMESTAMP WHERE user_id = ? AND used_at IS NULL'
+      ).bind(userId),
+      env.DB.prepare(
+        "INSERT INTO password_reset_codes (user_id, code_hash, issued_by, expires_at) VALUES (?, ?, ?, datetime('now', ?))"
+      ).bind(userId, await sha256Hex(code), admin.userId, `+${RESET_CODE_TTL} seconds`)
+    ]);
+
+    return jsonResponse({
+      success: true,
+      message: '重置码已生成',
+      username: targetUser.username,
+      code,
+      expiresIn: RESET_CODE_TTL
+    }, 201);
+  } catch (error) {
+    console.error('Issue reset code error:', error);
+    return errorResponse('RESET_CODE_ISSUE_FAILED');
+  }
+}
@@ -4,105 +4,95 @@
  */
 
 import type { Env } from './index';
-import { hashPassword, verifyPassword } from './utils/crypto';
-import { generateJWT, verifyJWT } from './utils/jwt';
+import { hashPassword, verifyPassword, needsRehash, dummyPasswordHash, DEFAULT_PASSWORD_HASH_ITERATIONS, MAX_PASSWORD_HASH_ITERATIONS } from './utils/crypto';
+import { verifyJWT, getJWTKeys } from './utils/jwt';
+import { validateUsername, validatePassword } from './utils/validation';
+import { checkLoginLock, getLoginDelay, recordLoginFailure, resetLoginAttempts } from './utils/loginGuard';
+import { createSession, rotateRefreshToken, findSessionByRefreshToken, revokeSession, revokeUserSessions, isSessionActive } from './utils/session';
+import { sha256Hex } from './utils/crypto';
+import { ROLES, isRole, type Role } from './utils/roles';
+import type { Router, Middleware } from './utils/router';
+import { errorResponse, jsonResponse } from './utils/response';
+import * as s from './utils/schema';
 
 /**
- * 处理认证相关请求
+ * 已认证用户
  */
-export async function handleAuth(request: Request, env: Env, path: string): Promise<Response> {
-  const method = request.method;
+export interface AuthUser {
+  userId: number;
+  username: string;
+  role: Role;
+  sid: string;
+}
 
-  if (path === '/api/auth/register' && method === 'POST') {
-    return await handleRegister(request, env);
-  }
+/**
+ * 注册请求体
+ */
+const registerSchema = s.object({
+  username: s.string({ min: 1 }),
+  password: s.string({ min: 1 }),
+  notes: s.optional(s.string())
+});
 
-  if (path === '/api/auth/login' && method === 'POST') {
-    return await handleLogin(request, env);
-  }
+/**
+ * 登录请求体
+ */
+const loginSchema = s.object({
+  username: s.string({ min: 1 }),
+  password: s.string({ min: 1 })
+});
 
-  if (path === '/api/auth/logout' && method === 'POST') {
-    return await handleLogout(request, env);
-  }
+/**
+ * 刷新令牌请求体
+ */
+const refreshSchema = s.object({
+  refreshToken: s.string({ min: 1 })
+});
 
-  return new Response('Auth endpoint not found', { status: 404 });
+/**
+ * 登出请求体，可为空（使用访问令牌中的会话ID）
+ */
+const logoutSchema = s.optional(s.object({
+  refreshToken: s.optional(s.string({ min: 1 }))
+}));
+
+/**
+ * 重置密码请求体
+ */
+const resetPasswordSchema = s.object({
+  username: s.string({ min: 1 }),
+  code: s.string({ trim: true, min: 1 }),
+  newPassword: s.string({ min: 1 })
+});
+
+type RegisterPayload = s.Infer<typeof registerSchema>;
+type LoginPayload = s.Infer<typeof loginSchema>;
+type RefreshPayload = s.Infer<typeof refreshSchema>;
+type LogoutPayload = s.Infer<typeof logoutSchema>;
+type ResetPasswordPayload = s.Infer<typeof resetPasswordSchema>;
+
+/**
+ * 注册认证相关路由
+ */
+export function registerAuthRoutes(router: Router): void {
+  router.post('/api/auth/register', [s.jsonBody(registerSchema)], ({ env, body }) => handleRegister(body, env));
+  router.post('/api/auth/login', [s.jsonBody(loginSchema)], ({ request, env, body }) => handleLogin(request, body, env));
+  router.post('/api/auth/refresh', [s.jsonBody(refreshSchema)], ({ env, body }) => handleRefresh(body, env));
+  router.post('/api/auth/reset-password', [s.jsonBody(resetPasswordSchema)], ({ request, env, body }) => handleResetPassword(request, body, env));
+  router.post('/api/auth/logout', [s.jsonBody(logoutSchema)], ({ request, env, body }) => handleLogout(request, body, env));
 }
 
 /**
  * 用户注册
  */
-async function handleRegister(request: Request, env: Env): Promise<Response> {
+async function handleRegister(body: RegisterPayload, env: Env): Promise<Response> {
   try {
-    const { username, password, notes } = await request.json();
-
-    // 验证输入
-    if (!username || !password) {
-      return new Response(JSON.stringify({ error: '用户名和密码不能为空' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
-
-    // 用户名验证：至少3位字符，不能为纯数字
-    if (username.length < 3) {
-      return new Response(JSON.stringify({ error: '用户名长度至少为3位字符' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
-
-    if (/^\d+$/.test(username)) {
-      return new Response(JSON.stringify({ error: '用户名不能为纯数字' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
-
-    // 密码验证：至少6位，不能为常见弱密码
-    if (password.length < 6) {
-      return new Response(JSON.stringify({ error: '密码长度至少为6位' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
-
-    // 使用正则表达式检测弱密码模式
-    const weakPasswordPatterns = [
-      /^(\d)\1{5,}$/, // 6位或以上相同数字 (如: 111111, 000000)
-      /^(.)\1{5,}$/, // 6位或以上相同字符 (如: aaaaaa)
-      /^123456\d*$/, // 以123456开头
-      /^\d*654321$/, // 以654321结尾
-      /^(012|123|234|345|456|567|678|789|890){2,}$/, // 连续数字重复
-      /^(abc|bcd|cde|def|efg|fgh|ghi|hij|ijk|jkl|klm|lmn|mno|nop|opq|pqr|qrs|rst|stu|tuv|uvw|vwx|wxy|xyz){2,}$/i, // 连续字母重复
-      /^(qwe|wer|ert|rty|tyu|yui|uio|iop|asd|sdf|dfg|fgh|ghj|hjk|jkl|zxc|xcv|cvb|vbn|bnm){2,}$/i, // 键盘序列重复
-      /^(password|admin|user|guest|test|demo)\d*$/i, // 常见单词+数字
-      /^\d{6,}$/, // 纯数字6位以上
-      /^[a-z]{6,}$/i, // 纯字母6位以上
-      /^(19|20)\d{2}(0[1-9]|1[0-2])(0[1-9]|[12]\d|3[01])$/, // 日期格式 (YYYYMMDD)
-      /^\d{4}(0[1-9]|1[0-2])(0[1-9]|[12]\d|3[01])$/, // 日期格式 (YYMMDD)
-    ];
-
-    // 常见弱密码列表作为补充
-    const commonWeakPasswords = ['password', 'admin', 'user', 'guest', 'test', 'demo', 'root', 'login', 'welcome', 'qwerty', 'asdfgh', 'zxcvbn'];
-
-    const lowerPassword = password.toLowerCase();
-
-    // 检查正则表达式模式
-    for (const pattern of weakPasswordPatterns) {
-      if (pattern.test(lowerPassword)) {
-        return new Response(JSON.stringify({ error: '密码过于简单，请使用更复杂的密码' }), {
-          status: 400,
-          headers: { 'Content-Type': 'application/json' },
-        });
-      }
-    }
+    const { username, password, notes } = body;
 
-    // 检查常见弱密码列表
-    if (commonWeakPasswords.includes(lowerPassword)) {
-      return new Response(JSON.stringify({ error: '密码过于简单，请使用更复杂的密码' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
+    // 校验用户名和密码规则
+    const validationError = validateUsername(username) || validatePassword(password);
+    if (validationError) {
+      return errorResponse(validationError);
     }
 
     // 检查用户名是否已存在
@@ -111,14 +101,11 @@ async function handleRegister(request: Request, env: Env): Promise<Response> {
     ).bind(username).first();
 
     if (existingUser) {
-      return new Response(JSON.stringify({ error: '用户名已存在' }), {
-        status: 409,
-        headers: { 'Content-Type': 'application/json' },
-      });
+      return errorResponse('USERNAME_TAKEN');
     }
 
     // 创建用户
-    const passwordHash = await hashPassword(password);
+    const passwordHash = await hashPassword(password, getPasswordHashIterations(env));
     const result = await env.DB.prepare(
       'INSERT INTO users (username, password_hash, notes) VALUES (?, ?, ?)'
     ).bind(username, passwordHash, notes || '').run();
@@ -127,110 +114,244 @@ async function handleRegister(request: Request, env: Env): Promise<Response> {
       throw new Error('Failed to create user');
     }
 
-    // 生成JWT
-    const token = await generateJWT({ userId: result.meta.last_row_id, username }, env.JWT_SECRET);
+    // 创建会话
+    const session = await createSession(env, { userId: result.meta.last_row_id, username, role: 'user' });
 
-    return new Response(JSON.stringify({
+    return jsonResponse({
       success: true,
       message: '注册成功',
-      token,
+      ...session,
       user: {
         id: result.meta.last_row_id,
         username,
+        role: 'user',
         notes: notes || ''
       }
-    }), {
-      status: 201,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    }, 201);
   } catch (error) {
     console.error('Register error:', error);
-    return new Response(JSON.stringify({ error: '注册失败' }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    return errorResponse('REGISTER_FAILED');
   }
 }
 
 /**
  * 用户登录
  */
-async function handleLogin(request: Request, env: Env): Promise<Response> {
+async function handleLogin(request: Request, body: LoginPayload, env: Env): Promise<Response> {
   try {
-    const { username, password } = await request.json();
+    const { username, password } = body;
+
+    // 检查用户名和IP是否被锁定
+    const ip = request.headers.get('CF-Connecting-IP') || 'unknown';
+    const lock = await checkLoginLock(env, username, ip);
+    if (lock.locked) {
+      return loginLockedResponse(lock.retryAfter);
+    }
 
-    // 验证输入
-    if (!username || !password) {
-      return new Response(JSON.stringify({ error: '用户名和密码不能为空' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
+    // 之前有失败记录时逐步增加延迟
+    const delay = getLoginDelay(lock.failures);
+    if (delay > 0) {
+      await new Promise(resolve => setTimeout(resolve, delay));
     }
 
     // 查找用户
     const user = await env.DB.prepare(
-      'SELECT id, username, password_hash, notes FROM users WHERE username = ?'
+      'SELECT id, username, password_hash, notes, role, disabled_at FROM users WHERE username = ?'
     ).bind(username).first();
 
-    if (!user) {
-      return new Response(JSON.stringify({ error: '用户名或密码错误' }), {
-        status: 401,
-        headers: { 'Content-Type': 'application/json' },
-      });
+    // 验证密码，用户不存在时同样执行一次验证，避免通过响应时间判断用户名是否存在
+    const isValidPassword = await verifyPassword(password, user ? user.password_hash as string : dummyPasswordHash(getPasswordHashIterations(env)));
+    if (!user || !isValidPassword) {
+      const failure = await recordLoginFailure(env, username, ip);
+      if (failure.locked) {
+        return loginLockedResponse(failure.retryAfter);
+      }
+
+      return errorResponse('INVALID_CREDENTIALS');
     }
 
-    // 验证密码
-    const isValidPassword = await verifyPassword(password, user.password_hash as string);
-    if (!isValidPassword) {
-      return new Response(JSON.stringify({ error: '用户名或密码错误' }), {
-        status: 401,
-        headers: { 'Content-Type': 'application/json' },
-      });
+    await resetLoginAttempts(env, username);
+
+    // 密码正确后才提示账户停用，避免泄露账户状态
+    if (user.disabled_at) {
+      return accountDisabledResponse();
     }
 
-    // 生成JWT
-    const token = await generateJWT({ userId: user.id, username: user.username }, env.JWT_SECRET);
+    // ADMIN_USERNAMES 中的用户登录时提升为管理员，用于创建第一个管理员
+    let role = user.role as Role;
+    if (role !== 'admin' && isBootstrapAdmin(user.username as string, env)) {
+      await env.DB.prepare(
+        "UPDATE users SET role = 'admin', updated_at = CURRENT_TIMESTAMP WHERE id = ?"
+      ).bind(user.id).run();
+      role = 'admin';
+    }
+
+    // 旧版哈希或迭代次数变化时，使用本次登录的明文密码重新计算哈希
+    const iterations = getPasswordHashIterations(env);
+    if (needsRehash(user.password_hash as string, iterations)) {
+      await env.DB.prepare(
+        'UPDATE users SET password_hash = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?'
+      ).bind(await hashPassword(password, iterations), user.id).run();
+    }
+
+    // 创建会话
+    const session = await createSession(env, { userId: user.id, username: user.username, role });
 
-    return new Response(JSON.stringify({
+    return jsonResponse({
       success: true,
       message: '登录成功',
-      token,
+      ...session,
       user: {
         id: user.id,
         username: user.username,
+        role,
         notes: user.notes
       }
-    }), {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' },
     });
   } catch (error) {
     console.error('Login error:', error);
-    return new Response(JSON.stringify({ error: '登录失败' }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' },
+    return errorResponse('LOGIN_FAILED');
+  }
+}
+
+/**
+ * 刷新访问令牌
+ */
+async function handleRefresh(body: RefreshPayload, env: Env): Promise<Response> {
+  try {
+    const session = await rotateRefreshToken(env, body.refreshToken);
+    if (!session) {
+      return errorResponse('SESSION_EXPIRED');
+    }
+
+    return jsonResponse({
+      success: true,
+      ...session
     });
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    return errorResponse('REFRESH_FAILED');
   }
 }
 
 /**
  * 用户登出
+ * 吊销当前会话，优先使用请求体中的刷新令牌，否则使用访问令牌中的会话ID
  */
-async function handleLogout(request: Request, env: Env): Promise<Response> {
-  // 客户端处理token清除，服务端返回成功响应
-  return new Response(JSON.stringify({
-    success: true,
-    message: '登出成功'
-  }), {
-    status: 200,
-    headers: { 'Content-Type': 'application/json' },
-  });
+async function handleLogout(request: Request, body: LogoutPayload, env: Env): Promise<Response> {
+  try {
+    const refreshToken = body?.refreshToken;
+
+    let sessionId: string | null = null;
+    if (refreshToken) {
+      sessionId = await findSessionByRefreshToken(env, refreshToken);
+    } else {
+      const user = await requireAuth(request, env);
+      sessionId = user?.sid || null;
+    }
+
+    if (sessionId) {
+      await revokeSession(env, sessionId);
+    }
+
+    return jsonResponse({
+      success: true,
+      message: '登出成功'
+    });
+  } catch (error) {
+    console.error('Logout error:', error);
+    return errorResponse('LOGOUT_FAILED');
+  }
+}
+
+/**
+ * 使用管理员签发的重置码重置密码
+ * 重置码只能使用一次，错误的重置码计入登录失败次数
+ */
+async function handleResetPassword(request: Request, body: ResetPasswordPayload, env: Env): Promise<Response> {
+  try {
+    const { username, code, newPassword } = body;
+
+    const ip = request.headers.get('CF-Connecting-IP') || 'unknown';
+    const lock = await checkLoginLock(env, username, ip);
+    if (lock.locked) {
+      return loginLockedResponse(lock.retryAfter);
+    }
+
+    const passwordError = validatePassword(newPassword);
+    if (passwordError) {
+      return errorResponse(passwordError);
+    }
+
+    // 条件更新保证重置码只能使用一次
+    const codeHash = await sha256Hex(code.toUpperCase());
+    const redeemed = await env.DB.prepare(
+      `UPDATE password_reset_codes SET used_at = CURRENT_TIMESTAMP
+       WHERE code_hash = ? AND used_at IS NULL AND expires_at > datetime('now')
+         AND user_id = (SELECT id FROM users WHERE username = ?)
+       RETURNING user_id`
+    ).bind(codeHash, username).first();
+
+    if (!redeemed) {
+      const failure = await recordLoginFailure(env, username, ip);
+      if (failure.locked) {
+        return loginLockedResponse(failure.retryAfter);
+      }
+
+      return errorResponse('RESET_CODE_INVALID');
+    }
+
+    await env.DB.prepare(
+      'UPDATE users SET password_hash = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?'
+    ).bind(await hashPassword(newPassword, getPasswordHashIterations(env)), redeemed.user_id).run();
+
+    // 密码修改后所有已登录会话失效
+    await revokeUserSessions(env, redeemed.user_id);
+    await resetLoginAttempts(env, username);
+
+    return jsonResponse({
+      success: true,
+      message: '密码已重置，请使用新密码登录'
+    });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    return errorResponse('RESET_PASSWORD_FAILED');
+  }
+}
+
+/**
+ * 登录锁定响应
+ */
+function loginLockedResponse(retryAfter: number): Response {
+  return errorResponse('LOGIN_LOCKED', { minutes: Math.ceil(retryAfter / 60), retryAfter }, { 'Retry-After': String(retryAfter) });
+}
+
+/**
+ * 账户停用响应
+ */
+function accountDisabledResponse(): Response {
+  return errorResponse('ACCOUNT_DISABLED');
+}
+
+/**
+ * 判断是否为 ADMIN_USERNAMES 配置的初始管理员（用户名逗号分隔）
+ */
+function isBootstrapAdmin(username: string, env: Env): boolean {
+  return (env.ADMIN_USERNAMES || '').split(',').map(name => name.trim()).filter(Boolean).includes(username);
+}
+
+/**
+ * 获取密码哈希迭代次数配置，超过 Workers 支持的上限时按上限处理
+ */
+export function getPasswordHashIterations(env: Env): number {
+  const iterations = parseInt(env.PASSWORD_HASH_ITERATIONS || '', 10);
+  return iterations > 0 ? Math.min(iterations, MAX_PASSWORD_HASH_ITERATIONS) : DEFAULT_PASSWORD_HASH_ITERATIONS;
 }
 
 /**
  * 验证JWT中间件
  */
-export async function requireAuth(request: Request, env: Env): Promise<{ userId: number; username: string } | null> {
+export async function requireAuth(request: Request, env: Env): Promise<AuthUser | null> {
   const authHeader = request.headers.get('Authorization');
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
     return null;
@@ -238,9 +359,52 @@ export async function requireAuth(request: Request, env: Env): Promise<{ userId:
 
   const token = authHeader.substring(7);
   try {
-    const payload = await verifyJWT(token, env.JWT_SECRET);
-    return payload;
+    const payload = await verifyJWT(token, getJWTKeys(env));
+
+    // 会话已登出或被吊销时拒绝访问；不含会话ID的旧版令牌无法吊销，同样拒绝，需重新登录
+    if (!payload.sid || !(await isSessionActive(env, payload.sid))) {
+      return null;
+    }
+
+    // 每次请求都读取账户状态，停用和角色变更立即生效
+    const account = await env.DB.prepare(
+      'SELECT role, disabled_at FROM users WHERE id = ?'
+    ).bind(payload.userId).first();
+
+    if (!account || account.disabled_at || !isRole(account.role)) {
+      return null;
+    }
+
+    return { userId: payload.userId, username: payload.username, role: account.role, sid: payload.sid };
   } catch (error) {
     return null;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * 验证角色中间件
+ * 未登录返回401，角色不符返回403
+ */
+export async function requireRole(request: Request, env: Env, roles: Role[]): Promise<AuthUser | Response> {
+  const user = await requireAuth(request, env);
+  if (!user) {
+    return errorResponse('UNAUTHORIZED');
+  }
+
+  if (!roles.includes(user.role)) {
+    return errorResponse('FORBIDDEN');
+  }
+
+  return user;
+}
+
+/**
+ * 认证中间件
+ * 未登录返回401；指定角色时角色不符返回403，通过后将用户加入路由上下文
+ */
+export function authenticate(roles: Role[] = ROLES): Middleware<{ user: AuthUser }> {
+  return async ({ request, env }) => {
+    const user = await requireRole(request, env, roles);
+    return user instanceof Response ? user : { user };
+  };
+}
@@ -0,0 +1,364 @@
+/**
+ * 购物车模块
+ * 购物车保存在D1中，跨设备同步；返回时按飞书最新价格和库存校验每一行
+ */
+
+import type { Env } from './index';
+import { authenticate } from './auth';
+import { fetchProductsByIds, withAvailableStock } from './products';
+import { getVariantConfig, hasCatalogVariants, type Product } from './catalog';
+import type { Router } from './utils/router';
+import { errorResponse, jsonResponse } from './utils/response';
+import * as s from './utils/schema';
+
+/**
+ * 购物车最多商品行数
+ */
+const MAX_CART_ITEMS = 100;
+
+/**
+ * 单个商品最大数量
+ */
+const MAX_ITEM_QUANTITY = 9999;
+
+/**
+ * 商品ID格式（飞书记录ID），与收藏一致
+ */
+const PRODUCT_ID_PATTERN = /^[\w-]+$/;
+
+/**
+ * 商品数量，必须为正整数
+ */
+const quantitySchema = s.number({ integer: true, min: 1, max: MAX_ITEM_QUANTITY });
+
+/**
+ * 加入购物车请求体
+ */
+const addItemSchema = s.object({
+  productId: s.string({ min: 1, pattern: PRODUCT_ID_PATTERN }),
+  quantity: quantitySchema
+});
+
+/**
+ * 修改购物车商品请求体
+ */
+const updateItemSchema = s.object({
+  quantity: s.optional(quantitySchema),
+  selected: s.optional(s.boolean())
+});
+
+/**
+ * 合并本地购物车请求体，商品ID兼容本地购物车的 id 和接口的 productId
+ */
+const mergeSchema = s.object({
+  items: s.array(s.object({
+    id: s.optional(s.string({ min: 1 })),
+    productId: s.optional(s.string({ min: 1 })),
+    quantity: quantitySchema,
+    selected: s.optional(s.boolean())
+  }))
+});
+
+type AddItemPayload = s.Infer<typeof addItemSchema>;
+type UpdateItemPayload = s.Infer<typeof updateItemSchema>;
+type MergePayload = s.Infer<typeof mergeSchema>;
+
+/**
+ * 购物车行不可购买的原因：商品已删除、无库存、库存不足
+ */
+type CartIssue = 'not_found' | 'out_of_stock' | 'insufficient_stock';
+
+/**
+ * 购物车行
+ */
+interface CartLine {
+  id: string;
+  name: string;
+  image: string;
+  price: number; // 当前价格
+  addedPrice: number | null; // 加入购物车时的价格
+  priceChanged: boolean;
+  unit: string;
+  stock: number; // 当前可用库存
+  quantity: number;
+  selected: boolean;
+  available: boolean;
+  issue: CartIssue | null;
+}
+
+/**
+ * 注册购物车相关路由
+ */
+export function registerCartRoutes(router: Router): void {
+  const auth = authenticate();
+
+  router.get('/api/cart', [auth], ({ env, user }) => getCart(user.userId, env));
+  router.post('/api/cart', [auth, s.jsonBody(addItemSchema)], ({ env, user, body }) => addCartItem(body, user.userId, env));
+  router.delete('/api/cart', [auth], ({ env, user }) => clearCart(user.userId, env));
+  router.post('/api/cart/merge', [auth, s.jsonBody(mergeSchema)], ({ env, user, body }) => mergeCart(body, user.userId, env));
+  router.put('/api/cart/:productId', [auth, s.jsonBody(updateItemSchema)], ({ env, user, params, body }) =>
+    updateCartItem(body, user.userId, params.productId, env));
+  router.delete('/api/cart/:productId', [auth], ({ env, user, params }) => removeCartItem(user.userId, params.productId, env));
+}
+
+/**
+ * 获取购物车
+ */
+async function getCart(userId: number, env: Env): Promise<Response> {
+  try {
+    return await cartResponse(env, userId);
+  } catch (error) {
+    console.error('Get cart error:', error);
+    return errorResponse('CART_FETCH_FAILED');
+  }
+}
+
+/**
+ * 加入购物车，已存在的商品累加数量
+ */
+async function addCartItem(body: AddItemPayload, userId: number, env: Env): Promise<Response> {
+  try {
+    const { productId, quantity } = body;
+
+    const existing = await env.DB.prepare(
+      'SELECT quantity FROM cart_items WHERE user_id = ? AND product_id = ?'
+    ).bind(userId, productId).first();
+
+    if (!existing) {
+      const count = await env.DB.prepare(
+        'SELECT COUNT(*) as count FROM cart_items WHERE user_id = ?'
+      ).bind(userId).first();
+
+      if (count.count >= MAX_CART_ITEMS) {
+        return errorResponse('CART_LIMIT', { max: MAX_CART_ITEMS });
+      }
+    }
+
+    const product = await getAvailableProduct(env, productId);
+    if (!product) {
+      return productNotFoundResponse(productId);
+    }
+
+    // 与下单相同：父商品本身没有库存，必须选择具体规格
+    if (getVariantConfig(env).parentField && await hasCatalogVariants(env, productId)) {
+      return errorResponse('VARIANT_REQUIRED', { productName: product.name });
+    }
+
+    const newQuantity = (existing?.quantity || 0) + quantity;
+    if (newQuantity > product.stock) {
+      return insufficientStockResponse(product);
+    }
+
+    await env.DB.prepare(
+      `INSERT INTO cart_items (user_id, product_id, quantity, added_price) VALUES (?, ?, ?, ?)
+       ON CONFLICT(user_id, product_id) DO UPDATE SET quantity = excluded.quantity, selected = 1, updated_at = CURRENT_TIMESTAMP`
+    ).bind(userId, productId, newQuantity, product.price).run();
+
+    return await cartResponse(env, userId);
+  } catch (error) {
+    console.error('Add cart item error:', error);
+    return errorResponse('CART_ADD_FAILED');
+  }
+}
+
+/**
+ * 修改购物车商品数量或选中状态
+ */
+async function updateCartItem(body: UpdateItemPayload, userId: number, productId: string, env: Env): Promise<Response> {
+  try {
+    const { quantity, selected } = body;
+
+    const existing = await env.DB.prepare(
+      'SELECT quantity, selected FROM cart_items WHERE user_id = ? AND product_id = ?'
+    ).bind(userId, productId).first();
+
+    if (!existing) {
+      return errorResponse('CART_ITEM_NOT_FOUND');
+    }
+
+    // 只在增加数量时校验库存，允许用户减少已超出库存的数量
+    if (quantity !== undefined && quantity > existing.quantity) {
+      const product = await getAvailableProduct(env, productId);
+      if (!product) {
+        return productNotFoundResponse(productId);
+      }
+      if (quantity > product.stock) {
+        return insufficientStockResponse(product);
+      }
+    }
+
+    await env.DB.prepare(
+      'UPDATE cart_items SET quantity = ?, selected = ?, updated_at = CURRENT_TIMESTAMP WHERE user_id = ? AND product_id = ?'
+    ).bind(
+      quantity ?? existing.quantity,
+      selected === undefined ? existing.selected : selected ? 1 : 0,
+      userId,
+      productId
+    ).run();
+
+    return await cartResponse(env, userId);
+  } catch (error) {
+    console.error('Update cart item error:', error);
+    return errorResponse('CART_UPDATE_FAILED');
+  }
+}
+
+/**
+ * 从购物车移除商品
+ */
+async function removeCartItem(userId: number, productId: string, env: Env): Promise<Response> {
+  try {
+    await env.DB.prepare(
+      'DELETE FROM cart_items WHERE user_id = ? AND product_id = ?'
+    ).bind(userId, productId).run();
+
+    return await cartResponse(env, userId);
+  } catch (error) {
+    console.error('Remove cart item error:', error);
+    return errorResponse('CART_REMOVE_FAILED');
+  }
+}
+
+/**
+ * 清空购物车
+ */
+async function clearCart(userId: number, env: Env): Promise<Response> {
+  try {
+    await env.DB.prepare('DELETE FROM cart_items WHERE user_id = ?').bind(userId).run();
+
+    return jsonResponse({
+      success: true,
+      items: [],
+      total: 0,
+      hasUnavailable: false
+    });
+  } catch (error) {
+    console.error('Clear cart error:', error);
+    return errorResponse('CART_CLEAR_FAILED');
+  }
+}
+
+/**
+ * 登录后合并本地购物车
+ * 同一商品取本地和服务端数量的较大值，避免同一份购物车重复合并时数量翻倍；已删除的商品被忽略
+ */
+async function mergeCart(body: MergePayload, userId: number, env: Env): Promise<Response> {
+  try {
+    const localItems = new Map<string, { quantity: number; selected: boolean }>();
+    for (const item of body.items) {
+      const productId = item.productId ?? item.id;
+      if (productId && PRODUCT_ID_PATTERN.test(productId)) {
+        localItems.set(productId, { quantity: item.quantity, selected: item.selected !== false });
+      }
+    }
+
+    if (localItems.size > 0) {
+      const existing = await env.DB.prepare(
+        'SELECT product_id FROM cart_items WHERE user_id = ?'
+      ).bind(userId).all();
+      const existingIds = new Set((existing.results || []).map((row: any) => row.product_id));
+
+      // 新增的商品行不能超过购物车上限
+      let remaining = MAX_CART_ITEMS - existingIds.size;
+      const productIds = [...localItems.keys()].filter(id => existingIds.has(id) || remaining-- > 0);
+      const products = await fetchProductsByIds(env, productIds);
+
+      const statements = productIds
+        .filter(id => products.has(id))
+        .map(id => env.DB.prepare(
+          `INSERT INTO cart_items (user_id, product_id, quantity, selected, added_price) VALUES (?, ?, ?, ?, ?)
+           ON CONFLICT(user_id, product_id) DO UPDATE SET quantity = MAX(quantity, excluded.quantity), updated_at = CURRENT_TIMESTAMP`
+        ).bind(userId, id, localItems.get(id)!.quantity, localItems.get(id)!.selected ? 1 : 0, products.get(id)!.price));
+
+      if (statements.length > 0) {
+        await env.DB.batch(statements);
+      }
+    }
+
+    return await cartResponse(env, userId);
+  } catch (error) {
+    console.error('Merge cart error:', error);
+    return errorResponse('CART_MERGE_FAILED');
+  }
+}
+
+/**
+ * 获取商品最新信息，库存为扣除预留后的可用库存
+ */
+async function getAvailableProduct(env: Env, productId: string): Promise<Product | null> {
+  const product = (await fetchProductsByIds(env, [productId])).get(productId);
+  return product ? (await withAvailableStock(env, [product]))[0] : null;
+}
+
+/**
+ * 商品不存在响应
+ */
+function productNotFoundResponse(productId: string): Response {
+  return errorResponse('PRODUCT_NOT_FOUND', { productId });
+}
+
+/**
+ * 库存不足响应
+ */
+function insufficientStockResponse(product: Product): Response {
+  return product.stock > 0
+    ? errorResponse('INSUFFICIENT_STOCK', { productNames: [product.name], productId: product.id, available: product.stock })
+    : errorResponse('OUT_OF_STOCK', { productName: product.name, productId: product.id, available: 0 });
+}
+
+/**
+ * 读取购物车并按飞书最新价格和库存校验
+ */
+async function loadCart(env: Env, userId: number): Promise<CartLine[]> {
+  const rows = await env.DB.prepare(
+    'SELECT product_id, quantity, selected, added_price FROM cart_items WHERE user_id = ? ORDER BY created_at DESC, product_id'
+  ).bind(userId).all();
+  const cartRows: any[] = rows.results || [];
+
+  if (cartRows.length === 0) {
+    return [];
+  }
+
+  const fetched = await fetchProductsByIds(env, cartRows.map(row => row.product_id));
+  const products = new Map((await withAvailableStock(env, [...fetched.values()])).map(product => [product.id, product]));
+
+  return cartRows.map(row => {
+    const product = products.get(row.product_id);
+    const issue: CartIssue | null = !product ? 'not_found'
+      : product.stock <= 0 ? 'out_of_stock'
+      : row.quantity > product.stock ? 'insufficient_stock'
+      : null;
+
+    return {
+      id: row.product_id,
+      name: product?.name || '商品已下架',
+      image: product?.image || '',
+      price: product?.price ?? row.added_price ?? 0,
+      addedPrice: row.added_price,
+      priceChanged: !!product && row.added_price !== null && row.added_price !== product.price,
+      unit: product?.unit || '',
+      stock: product?.stock || 0,
+      quantity: row.quantity,
+      selected: !!row.selected,
+      available: issue === null,
+      issue
+    };
+  });
+}
+
+/**
+ * 购物车响应，合计只统计选中且可购买的商品
+ */
+async function cartResponse(env: Env, userId: number): Promise<Response> {
+  const items = await loadCart(env, userId);
+  const total = items
+    .filter(item => item.selected && item.available)
+    .reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+  return jsonResponse({
+    success: true,
+    items,
+    total,
+    hasUnavailable: items.some(item => !item.available)
+  });
+}
@@ -0,0 +1,485 @@
+/**
+ * 商品目录镜像模块
+ * 定时将飞书库存表同步到D1，商品接口优先从D1读取
+ * 配置父商品关联字段后，关联了父商品的记录作为该商品的规格（SKU）
+ */
+
+import type { Env } from './index';
+import { callFeishuBitableApi, searchAllBitableRecords } from './utils/feishu';
+import { fromD1Timestamp } from './utils/datetime';
+
+/**
+ * 商品查询需要的飞书字段
+ */
+export const PRODUCT_FIELD_NAMES = ['商品名称', '类型', '商品图片', '商品单价', '库存剩余', '单位', '商品描述'];
+
+/**
+ * 商品数据
+ */
+export interface Product {
+  id: string;
+  name: string;
+  price: number;
+  stock: number;
+  image: string;
+  description: string;
+  type: string;
+  unit: string;
+  parentId: string | null; // 规格所属的父商品ID
+  options: Record<string, string>; // 规格的选项值，如 { 规格: '5kg' }
+}
+
+/**
+ * 规格选项维度
+ */
+export interface ProductOptionDimension {
+  name: string;
+  values: string[];
+}
+
+/**
+ * 带规格的商品，有规格时价格为最低规格价格、库存为各规格库存之和
+ */
+export interface GroupedProduct extends Product {
+  variants: Product[];
+  optionDimensions: ProductOptionDimension[];
+}
+
+/**
+ * 规格配置
+ * FEISHU_VARIANT_PARENT_FIELD：库存表中关联父商品的字段名，未配置时不分组
+ * FEISHU_VARIANT_OPTION_FIELDS：规格选项维度字段名，逗号分隔
+ */
+export interface VariantConfig {
+  parentField: string | null;
+  optionFields: string[];
+}
+
+/**
+ * 商品排序方式：价格升序、价格降序、库存从多到少、上新时间从新到旧
+ */
+export const PRODUCT_SORTS = ['price_asc', 'price_desc', 'stock', 'newest'] as const;
+
+export type ProductSort = typeof PRODUCT_SORTS[number];
+
+/**
+ * 商品列表查询条件
+ * 价格和库存按有效值筛选：有规格的商品取最低规格价格和规格库存之和
+ */
+export interface ProductQuery {
+  searchTerm: string; // 匹配商品名称或商品描述
+  categories: string[];
+  minPrice: number | null;
+  maxPrice: number | null;
+  inStock: boolean;
+  sort: ProductSort | null;
+}
+
+/**
+ * 商品分类
+ */
+export interface ProductCategory {
+  id: string;
+  name: string;
+  color: number;
+}
+
+/**
+ * 解析后的商品记录，图片保留飞书文件token
+ */
+interface CatalogRecord {
+  id: string;
+  name: string;
+  type: string;
+  price: number;
+  stock: number;
+  unit: string;
+  description: string;
+  imageToken: string;
+  parentId: string | null;
+  options: Record<string, string>;
+  createdAt: string | null; // 飞书记录创建时间（UTC）
+}
+
+/**
+ * 每个D1 batch 写入的商品语句数量
+ */
+const SYNC_BATCH_SIZE = 50;
+
+/**
+ * D1商品排序语句，以 position（商品行的 rowid，即首次写入目录的顺序）保证分页稳定
+ */
+const CATALOG_SORT_SQL: Record<ProductSort | 'default', string> = {
+  default: 'position',
+  price_asc: 'effective_price ASC, position',
+  price_desc: 'effective_price DESC, position',
+  stock: 'effective_stock DESC, position',
+  newest: 'created_at DESC, position DESC'
+};
+
+/**
+ * 读取规格配置
+ */
+export function getVariantConfig(env: Env): VariantConfig {
+  return {
+    parentField: env.FEISHU_VARIANT_PARENT_FIELD?.trim() || null,
+    optionFields: (env.FEISHU_VARIANT_OPTION_FIELDS || '').split(',').map(name => name.trim()).filter(Boolean)
+  };
+}
+
+/**
+ * 商品查询需要的飞书字段（含规格字段）
+ */
+export function getProductFieldNames(config: VariantConfig): string[] {
+  return [...PRODUCT_FIELD_NAMES, ...(config.parentField ? [config.parentField] : []), ...config.optionFields];
+}
+
+/**
+ * 将飞书库存表记录格式化为商品数据
+ */
+export function formatProductRecord(item: any, config: VariantConfig): Product {
+  return toProduct(parseProductRecord(item, config));
+}
+
+/**
+ * 解析飞书数字字段，公式字段返回 { type, value: [n] } 结构
+ */
+export function parseNumberField(field: any): number {
+  const value = Number(Array.isArray(field?.value) ? field.value[0] : field);
+  return isFinite(value) ? value : 0;
+}
+
+/**
+ * 判断是否为支持的排序方式
+ */
+export function isProductSort(value: string): value is ProductSort {
+  return (PRODUCT_SORTS as readonly string[]).includes(value);
+}
+
+/**
+ * 解析飞书关联字段，返回第一个关联记录ID
+ */
+function parseLinkField(field: any): string | null {
+  if (Array.isArray(field)) {
+    return field[0]?.record_ids?.[0] || null;
+  }
+  return field?.link_record_ids?.[0] || null;
+}
+
+/**
+ * 解析规格选项字段（文本、单选或数字）
+ */
+function parseOptionField(field: any): string {
+  if (field === null || field === undefined) {
+    return '';
+  }
+  if (Array.isArray(field)) {
+    return field.map(part => part?.text ?? part?.name ?? String(part)).join('').trim();
+  }
+  if (Array.isArray(field.value)) {
+    return parseOptionField(field.value[0]);
+  }
+  return String(field).trim();
+}
+
+/**
+ * 解析飞书库存表记录
+ */
+function parseProductRecord(item: any, config: VariantConfig): CatalogRecord {
+  const fields = item.fields;
+
+  const options: Record<string, string> = {};
+  for (const name of config.optionFields) {
+    const value = parseOptionField(fields[name]);
+    if (value) {
+      options[name] = value;
+    }
+  }
+
+  return {
+    id: item.record_id,
+    name: fields['商品名称'] && fields['商品名称'][0] ? fields['商品名称'][0].text : 'Unnamed Product',
+    type: fields['类型'] || '',
+    price: parseNumberField(fields['商品单价']),
+    stock: parseNumberField(fields['库存剩余']),
+    unit: fields['单位'] || '',
+    description: fields['商品描述'] && fields['商品描述'][0] ? fields['商品描述'][0].text : '',
+    imageToken: fields['商品图片'] && fields['商品图片'][0] ? fields['商品图片'][0].file_token : '',
+    parentId: config.parentField ? parseLinkField(fields[config.parentField]) : null,
+    options,
+    // created_time 仅在请求 automatic_fields 时返回
+    createdAt: item.created_time ? new Date(item.created_time).toISOString().slice(0, 19).replace('T', ' ') : null
+  };
+}
+
+/**
+ * 商品记录转换为接口返回的商品数据，图片通过代理访问
+ */
+function toProduct(record: CatalogRecord): Product {
+  return {
+    id: record.id,
+    name: record.name,
+    price: record.price,
+    stock: record.stock,
+    image: record.imageToken ? `/api/image_proxy?file_token=${record.imageToken}` : '',
+    description: record.description,
+    type: record.type,
+    unit: record.unit,
+    parentId: record.parentId,
+    options: record.options
+  };
+}
+
+/**
+ * D1行转换为商品数据
+ */
+function rowToProduct(row: any): Product {
+  return toProduct({
+    id: row.record_id,
+    name: row.name,
+    type: row.type,
+    price: row.price,
+    stock: row.stock,
+    unit: row.unit,
+    description: row.description,
+    imageToken: row.image_token,
+    parentId: row.parent_id,
+    options: row.options ? JSON.parse(row.options) : {},
+    createdAt: row.created_at
+  });
+}
+
+/**
+ * 将规格归入父商品
+ * 有规格的商品价格取最低规格价格、库存取各规格库存之和；选项维度按配置顺序汇总各规格的选项值
+ */
+export function groupVariants(parents: Product[], variants: Product[], config: VariantConfig): GroupedProduct[] {
+  return parents.map(parent => {
+    const children = variants.filter(variant => variant.parentId === parent.id);
+    if (children.length === 0) {
+      return { ...parent, variants: [], optionDimensions: [] };
+    }
+
+    const optionDimensions = config.optionFields
+      .map(name => ({ name, values: [...new Set(children.map(child => child.options[name]).filter(Boolean))] }))
+      .filter(dimension => dimension.values.length > 0);
+
+    return {
+      ...parent,
+      price: Math.min(...children.map(child => child.price)),
+      stock: children.reduce((sum, child) => sum + child.stock, 0),
+      variants: children,
+      optionDimensions
+    };
+  });
+}
+
+/**
+ * 同步商品目录
+ * 库存剩余等公式字段变化不会更新飞书的修改时间，因此按内容比较，只写入有变化的记录并删除已移除的记录
+ */
+export async function syncCatalog(env: Env): Promise<void> {
+  const config = getVariantConfig(env);
+  const items = await searchAllBitableRecords(env, env.FEISHU_STOCK_TABLE_ID, {
+    field_names: getProductFieldNames(config),
+    automatic_fields: true
+  });
+  const records = items.map(item => parseProductRecord(item, config));
+
+  const existing = await env.DB.prepare(
+    'SELECT record_id, name, type, price, stock, unit, description, image_token, parent_id, options, created_at FROM catalog_products'
+  ).all();
+  const existingMap = new Map<string, any>((existing.results || []).map((row: any) => [row.record_id, row]));
+
+  // 商品各行相互独立，分批写入；中途失败时已写入的行保持最新，下次同步补齐其余行
+  const statements: any[] = [];
+
+  for (const record of records) {
+    const row = existingMap.get(record.id);
+    existingMap.delete(record.id);
+    const options = JSON.stringify(record.options);
+
+    if (row && row.name === record.name && row.type === record.type && row.price === record.price &&
+      row.stock === record.stock && row.unit === record.unit && row.description === record.description &&
+      row.image_token === record.imageToken && row.parent_id === record.parentId && row.options === options &&
+      row.created_at === record.createdAt) {
+      continue;
+    }
+
+    statements.push(env.DB.prepare(
+      `INSERT INTO catalog_products (record_id, name, type, price, stock, unit, description, image_token, parent_id, options, created_at, synced_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+       ON CONFLICT(record_id) DO UPDATE SET
+         name = excluded.name, type = excluded.type, price = excluded.price, stock = excluded.stock,
+         unit = excluded.unit, description = excluded.description, image_token = excluded.image_token,
+         parent_id = excluded.parent_id, options = excluded.options, created_at = excluded.created_at,
+         synced_at = excluded.synced_at`
+    ).bind(record.id, record.name, record.type, record.price, record.stock, record.unit, record.description, record.imageToken, record.parentId, options, record.createdAt));
+  }
+
+  // 剩余的记录已从飞书删除
+  for (const recordId of existingMap.keys()) {
+    statements.push(env.DB.prepare('DELETE FROM catalog_products WHERE record_id = ?').bind(recordId));
+  }
+
+  for (let i = 0; i < statements.length; i += SYNC_BATCH_SIZE) {
+    await env.DB.batch(statements.slice(i, i + SYNC_BATCH_SIZE));
+  }
+
+  // 分类整体替换，删除和写入放在同一个 batch（事务）中，查询不会读到空的分类表；
+  // 商品全部写入后才更新同步时间
+  const categories = await fetchCategoriesFromFeishu(env);
+  await env.DB.batch([
+    env.DB.prepare('DELETE FROM catalog_categories'),
+    ...categories.map((category, index) => env.DB.prepare(
+      'INSERT INTO catalog_categories (id, name, color, position) VALUES (?, ?, ?, ?)'
+    ).bind(category.id, category.name, category.color ?? null, index)),
+    env.DB.prepare(
+      `INSERT INTO sync_state (name, synced_at) VALUES ('catalog', CURRENT_TIMESTAMP)
+       ON CONFLICT(name) DO UPDATE SET synced_at = excluded.synced_at`
+    )
+  ]);
+}
+
+/**
+ * 从飞书获取商品分类（库存表"类型"字段的选项）
+ */
+export async function fetchCategoriesFromFeishu(env: Env): Promise<ProductCategory[]> {
+  const data = await callFeishuBitableApi(env, 'GET', `/tables/${env.FEISHU_STOCK_TABLE_ID}/fields`);
+
+  // 查找"类型"字段
+  const typeField = data.items?.find((field: any) => field.field_name === '类型');
+  if (!typeField || !typeField.property?.options) {
+    return [];
+  }
+
+  return typeField.property.options.map((option: any) => ({
+    id: option.id,
+    name: option.name,
+    color: option.color
+  }));
+}
+
+/**
+ * 获取商品目录最近同步时间，未同步过时返回null
+ */
+export async function getCatalogSyncedAt(env: Env): Promise<string | null> {
+  const row = await env.DB.prepare(
+    "SELECT synced_at FROM sync_state WHERE name = 'catalog'"
+  ).first();
+
+  return row?.synced_at ? fromD1Timestamp(row.synced_at) : null;
+}
+
+/**
+ * 从D1分页查询商品，分页token为偏移量
+ * 只分页父商品和独立商品，规格通过 getCatalogVariants 查询
+ */
+export async function queryCatalogProducts(
+  env: Env,
+  offset: number,
+  pageSize: number,
+  query: ProductQuery
+): Promise<{ products: Product[], hasMore: boolean, nextPageToken: string }> {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (query.searchTerm) {
+    conditions.push("(name LIKE ? ESCAPE '\\' OR description LIKE ? ESCAPE '\\')");
+    const pattern = `%${query.searchTerm.replace(/[\\%_]/g, '\\$&')}%`;
+    params.push(pattern, pattern);
+  }
+
+  if (query.categories.length > 0) {
+    conditions.push('type IN (SELECT value FROM json_each(?))');
+    params.push(JSON.stringify(query.categories));
+  }
+
+  if (query.minPrice !== null) {
+    conditions.push('effective_price >= ?');
+    params.push(query.minPrice);
+  }
+
+  if (query.maxPrice !== null) {
+    conditions.push('effective_price <= ?');
+    params.push(query.maxPrice);
+  }
+
+  if (query.inStock) {
+    conditions.push('effective_stock > 0');
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  // 有规格的商品按最低规格价格和规格库存之和筛选、排序；多取一条用于判断是否还有下一页
+  const result = await env.DB.prepare(
+    `SELECT * FROM (
+       SELECT rowid AS position, record_id, name, type, price, stock, unit, description, image_token, parent_id, options, created_at,
+         COALESCE((SELECT MIN(v.price) FROM catalog_products v WHERE v.parent_id = p.record_id), price) AS effective_price,
+         COALESCE((SELECT SUM(v.stock) FROM catalog_products v WHERE v.parent_id = p.record_id), stock) AS effective_stock
+       FROM catalog_products p WHERE parent_id IS NULL
+     ) ${where} ORDER BY ${CATALOG_SORT_SQL[query.sort ?? 'default']} LIMIT ? OFFSET ?`
+  ).bind(...params, pageSize + 1, offset).all();
+
+  const rows = result.results || [];
+  const hasMore = rows.length > pageSize;
+
+  return {
+    products: rows.slice(0, pageSize).map(rowToProduct),
+    hasMore,
+    nextPageToken: hasMore ? String(offset + pageSize) : ''
+  };
+}
+
+/**
+ * 从D1查询单个商品
+ */
+export async function getCatalogProduct(env: Env, productId: string): Promise<Product | null> {
+  const row = await env.DB.prepare(
+    'SELECT record_id, name, type, price, stock, unit, description, image_token, parent_id, options FROM catalog_products WHERE record_id = ?'
+  ).bind(productId).first();
+
+  return row ? rowToProduct(row) : null;
+}
+
+/**
+ * 判断商品是否有规格（根据D1镜像）
+ */
+export async function hasCatalogVariants(env: Env, productId: string): Promise<boolean> {
+  const row = await env.DB.prepare(
+    'SELECT 1 FROM catalog_products WHERE parent_id = ? LIMIT 1'
+  ).bind(productId).first();
+
+  return !!row;
+}
+
+/**
+ * 从D1查询指定父商品的全部规格
+ */
+export async function getCatalogVariants(env: Env, parentIds: string[]): Promise<Product[]> {
+  if (parentIds.length === 0) {
+    return [];
+  }
+
+  const result = await env.DB.prepare(
+    `SELECT record_id, name, type, price, stock, unit, description, image_token, parent_id, options FROM catalog_products
+     WHERE parent_id IN (SELECT value FROM json_each(?)) ORDER BY rowid`
+  ).bind(JSON.stringify(parentIds)).all();
+
+  return (result.results || []).map(rowToProduct);
+}
+
+/**
+ * 从D1查询商品分类
+ */
+export async function getCatalogCategories(env: Env): Promise<ProductCategory[]> {
+  const result = await env.DB.prepare(
+    'SELECT id, name, color FROM catalog_categories ORDER BY position'
+  ).all();
+
+  return (result.results || []).map((row: any) => ({
+    id: row.id,
+    name: row.name,
+    color: row.color
+  }));
+}
@@ -0,0 +1,157 @@
+/**
+ * 飞书事件订阅模块
+ * 接收多维表格记录变更事件，记录订单状态变化
+ */
+
+import type { Env } from './index';
+import { batchGetBitableRecords } from './utils/feishu';
+import { getTextValue } from './orders';
+import { sha256Hex, timingSafeEqual } from './utils/crypto';
+import { recordStatusChange } from './utils/orderHistory';
+import type { Router } from './utils/router';
+import { errorResponse, jsonResponse } from './utils/response';
+
+/**
+ * 多维表格记录变更事件类型
+ */
+const BITABLE_RECORD_CHANGED_EVENT = 'drive.file.bitable_record_changed_v1';
+
+/**
+ * 事件请求时间戳允许的偏差（秒），超出时视为重放的请求
+ */
+const EVENT_TIMESTAMP_TOLERANCE = 5 * 60;
+
+/**
+ * 注册飞书事件订阅路由
+ */
+export function registerEventRoutes(router: Router): void {
+  router.post('/api/feishu/events', [], ({ request, env, ctx }) => handleFeishuEvents(request, env, ctx));
+}
+
+/**
+ * 处理飞书事件订阅请求
+ */
+async function handleFeishuEvents(request: Request, env: Env, ctx: any): Promise<Response> {
+  try {
+    // Encrypt Key 和 Verification Token 均未配置时无法确认事件来源
+    if (!env.FEISHU_EVENT_ENCRYPT_KEY && !env.FEISHU_EVENT_VERIFICATION_TOKEN) {
+      return errorResponse('EVENT_VERIFICATION_NOT_CONFIGURED');
+    }
+
+    const rawBody = await request.text();
+    let payload = JSON.parse(rawBody);
+
+    // 配置了 Encrypt Key 时事件内容为加密数据
+    if (env.FEISHU_EVENT_ENCRYPT_KEY) {
+      if (!payload.encrypt) {
+        return errorResponse('EVENT_NOT_ENCRYPTED');
+      }
+      payload = JSON.parse(await decryptFeishuEvent(payload.encrypt, env.FEISHU_EVENT_ENCRYPT_KEY));
+    }
+
+    // 校验 Verification Token（URL验证事件在顶层，2.0事件在header中）
+    const token = payload.header?.token ?? payload.token;
+    if (env.FEISHU_EVENT_VERIFICATION_TOKEN && !safeEqual(String(token ?? ''), env.FEISHU_EVENT_VERIFICATION_TOKEN)) {
+      return errorResponse('EVENT_TOKEN_INVALID');
+    }
+
+    // URL验证请求不携带签名，能用 Encrypt Key 解密或 Token 校验通过即可响应
+    if (payload.type === 'url_verification') {
+      return jsonResponse({ challenge: payload.challenge });
+    }
+
+    // 配置了 Encrypt Key 时事件必须携带签名，且请求时间在允许范围内，防止截获的事件被重放
+    if (env.FEISHU_EVENT_ENCRYPT_KEY) {
+      const timestamp = request.headers.get('X-Lark-Request-Timestamp') || '';
+      const nonce = request.headers.get('X-Lark-Request-Nonce') || '';
+      const signature = await sha256Hex(timestamp + nonce + env.FEISHU_EVENT_ENCRYPT_KEY + rawBody);
+      if (!safeEqual(signature, request.headers.get('X-Lark-Signature') || '')) {
+        return errorResponse('EVENT_SIGNATURE_INVALID');
+      }
+
+      const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+      if (!(age <= EVENT_TIMESTAMP_TOLERANCE)) {
+        return errorResponse('EVENT_EXPIRED');
+      }
+    }
+
+    // 飞书要求3秒内响应，事件在响应后异步处理
+    if (payload.header?.event_type === BITABLE_RECORD_CHANGED_EVENT) {
+      ctx.waitUntil(handleRecordChanged(payload, env).catch(error => {
+        console.error('Handle bitable record changed error:', error);
+      }));
+    }
+
+    return jsonResponse({ success: true });
+  } catch (error) {
+    console.error('Feishu event error:', error);
+    return errorResponse('EVENT_HANDLING_FAILED');
+  }
+}
+
+/**
+ * 处理订单表记录变更
+ * 重新读取变更记录的最新状态，与历史中最近的状态比较后写入状态历史
+ */
+async function handleRecordChanged(payload: any, env: Env): Promise<void> {
+  const event = payload.event;
+  if (event?.table_id !== env.FEISHU_ORDER_TABLE_ID) {
+    return;
+  }
+
+  const recordIds: string[] = [...new Set<string>(
+    (event.action_list || [])
+      .filter((action: any) => action.action === 'record_added' || action.action === 'record_edited')
+      .map((action: any) => action.record_id)
+  )];
+  if (recordIds.length === 0) {
+    return;
+  }
+
+  // 同一订单的多条记录只记录一次状态变化
+  const orderStatuses = new Map<string, string>();
+  for (const record of await batchGetBitableRecords(env, env.FEISHU_ORDER_TABLE_ID, recordIds)) {
+    const orderId = getTextValue(record.fields['订单号']);
+    const status = record.fields['订单状态'];
+    if (orderId && status) {
+      orderStatuses.set(orderId, status);
+    }
+  }
+
+  const operator = event.operator_id?.open_id || event.operator_id?.user_id || null;
+  for (const [orderId, status] of orderStatuses) {
+    await recordStatusChange(env, {
+      orderId,
+      toStatus: status,
+      changedBy: operator,
+      source: 'feishu',
+      eventId: payload.header.event_id
+    });
+  }
+}
+
+/**
+ * 常量时间比较字符串
+ */
+function safeEqual(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  return timingSafeEqual(encoder.encode(a), encoder.encode(b));
+}
+
+/**
+ * 解密飞书事件
+ * 密钥为 Encrypt Key 的 SHA-256 摘要，密文前16字节为 AES-256-CBC 的 IV
+ */
+async function decryptFeishuEvent(encrypt: string, encryptKey: string): Promise<string> {
+  const keyData = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(encryptKey));
+  const key = await crypto.subtle.importKey('raw', keyData, { name: 'AES-CBC' }, false, ['decrypt']);
+
+  const encrypted = Uint8Array.from(atob(encrypt), c => c.charCodeAt(0));
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-CBC', iv: encrypted.slice(0, 16) },
+    key,
+    encrypted.slice(16)
+  );
+
+  return new TextDecoder().decode(decrypted);
+}
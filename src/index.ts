@@ -3,19 +3,37 @@
  * 处理静态资源和API路由
  */
 
-import { handleAuth } from './auth';
-import { handleUser } from './user';
-import { handleProducts, handleImageProxy } from './products';
-import { handleOrders } from './orders';
+import { registerAuthRoutes } from './auth';
+import { registerUserRoutes } from './user';
+import { registerProductRoutes } from './products';
+import { registerOrderRoutes } from './orders';
+import { registerCartRoutes } from './cart';
+import { registerEventRoutes } from './events';
+import { registerAdminRoutes } from './admin';
+import { syncCatalog } from './catalog';
+import { Router } from './utils/router';
+import { errorResponse, localizeResponse } from './utils/response';
 
 export interface Env {
   // Environment variables
   JWT_SECRET: string;
+  JWT_KEY_ID?: string;
+  JWT_PREVIOUS_KEYS?: string;
+  PASSWORD_HASH_ITERATIONS?: string;
+  LOGIN_MAX_FAILURES?: string;
+  LOGIN_IP_MAX_FAILURES?: string;
+  LOGIN_LOCK_SECONDS?: string;
+  ADMIN_USERNAMES?: string;
   FEISHU_APP_ID: string;
   FEISHU_APP_SECRET: string;
   FEISHU_BASE_APP_TOKEN: string;
   FEISHU_STOCK_TABLE_ID: string;
+  FEISHU_VARIANT_PARENT_FIELD?: string;
+  FEISHU_VARIANT_OPTION_FIELDS?: string;
   FEISHU_ORDER_TABLE_ID: string;
+  STOCK_RESERVATION_TTL_SECONDS?: string;
+  FEISHU_EVENT_ENCRYPT_KEY?: string;
+  FEISHU_EVENT_VERIFICATION_TOKEN?: string;
   // Cloudflare bindings
   DB: any; // D1Database type from @cloudflare/workers-types
 }
@@ -32,61 +50,63 @@ export default {
         headers: {
           'Access-Control-Allow-Origin': '*',
           'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-          'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+          'Access-Control-Allow-Headers': 'Content-Type, Authorization, Idempotency-Key',
         },
       });
     }
 
     // API 路由处理
     if (path.startsWith('/api/')) {
-      const originalResponse = await handleApiRequest(request, env, path);
+      // 错误信息按 Accept-Language 本地化
+      const originalResponse = localizeResponse(await handleApiRequest(request, env, ctx, path), request);
       // 克隆响应以使 headers 可变
       const response = new Response(originalResponse.body, originalResponse);
       // 添加 CORS 头
       response.headers.set('Access-Control-Allow-Origin', '*');
       response.headers.set('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-      response.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+      response.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, Idempotency-Key');
       return response;
     }
 
     // by default, we will return 404 to let wrangler handle static assets
     return new Response('Not found', { status: 404 });
   },
+
+  /**
+   * 定时任务：从飞书同步商品目录到D1
+   */
+  async scheduled(controller: any, env: Env, ctx: any): Promise<void> {
+    ctx.waitUntil(syncCatalog(env).catch(error => {
+      console.error('Catalog sync error:', error);
+    }));
+  },
 };
 
+/**
+ * API路由表
+ */
+const router = new Router();
+registerAuthRoutes(router);
+registerUserRoutes(router);
+registerProductRoutes(router);
+registerOrderRoutes(router);
+registerCartRoutes(router);
+registerAdminRoutes(router);
+registerEventRoutes(router);
+
 /**
  * 处理API请求路由
  */
-async function handleApiRequest(request: Request, env: Env, path: string): Promise<Response> {
+async function handleApiRequest(request: Request, env: Env, ctx: any, path: string): Promise<Response> {
   try {
-    // 认证相关API
-    if (path.startsWith('/api/auth/')) {
-      return await handleAuth(request, env, path);
-    }
-
-    // 用户相关API
-    if (path.startsWith('/api/user/')) {
-      return await handleUser(request, env, path);
-    }
-
-    // 商品相关API
-    if (path.startsWith('/api/products')) {
-      return await handleProducts(request, env, path);
-    }
-
-    // 图片代理
-    if (path.startsWith('/api/image_proxy')) {
-      return await handleImageProxy(request, env);
-    }
-
-    // 订单相关API
-    if (path.startsWith('/api/orders')) {
-      return await handleOrders(request, env, path);
+    const response = await router.handle(request, env, ctx, path);
+    if (response) {
+      return response;
     }
 
-    return new Response('API endpoint not found', { status: 404 });
+    return errorResponse('NOT_FOUND');
   } catch (error) {
     console.error('API Error:', error);
-    return new Response('Internal Server Error', { status: 500 });
+    return errorResponse('INTERNAL_ERROR');
   }
-}
\ No newline at end of file
+}
@@ -4,385 +4,1028 @@
  */
 
 import type { Env } from './index';
-import { requireAuth } from './auth';
-import { callFeishuBitableApi } from './utils/feishu';
+import { authenticate, type AuthUser } from './auth';
+import { callFeishuBitableApi, isFeishuError, searchAllBitableRecords, searchBitableRecordPages } from './utils/feishu';
+import { ORDER_STATUS_FLOW, canTransition, toOrderStatus, toFeishuStatus, isOrderStatus, isFeishuOrderStatus, type OrderStatus, type FeishuOrderStatus } from './utils/orderStatus';
+import { reserveStock, commitReservations, releaseReservations } from './utils/reservation';
+import { withIdempotency } from './utils/idempotency';
+import { recordStatusChange, getStatusHistory, type StatusHistoryEntry, type StatusChangeSource } from './utils/orderHistory';
+import { parseNumberField, getVariantConfig, hasCatalogVariants, formatProductRecord } from './catalog';
+import { fetchProductsByIds, withAvailableStock } from './products';
+import { buildCsv, buildXlsx, type CellValue } from './utils/spreadsheet';
+import { STAFF_ROLES } from './utils/roles';
+import type { Router } from './utils/router';
+import { errorResponse, jsonResponse, type ErrorCode } from './utils/response';
+import * as s from './utils/schema';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
- * 处理订单相关请求
+ * 订单商品，有规格的商品需提供 skuId
  */
-export async function handleOrders(request: Request, env: Env, path: string): Promise<Response> {
-  const method = request.method;
+const orderItemSchema = s.object({
+  id: s.string({ min: 1 }),
+  skuId: s.optional(s.string({ min: 1 })),
+  quantity: s.number({ integer: true, min: 1 })
+});
 
-  // 验证用户身份
-  const user = await requireAuth(request, env);
-  if (!user) {
-    return new Response(JSON.stringify({ error: '未授权访问' }), {
-      status: 401,
-      headers: { 'Content-Type': 'application/json' },
-    });
-  }
+/**
+ * 创建订单请求体
+ */
+const orderSchema = s.object({
+  items: s.array(orderItemSchema, { min: 1 }),
+  addressId: s.number({ integer: true, min: 1 })
+});
 
-  if (path === '/api/orders' && method === 'POST') {
-    return await createOrder(request, user, env);
-  }
+/**
+ * 再次购买确认请求体，items 为预览中可购买的商品、数量和单价
+ */
+const reorderConfirmSchema = s.object({
+  addressId: s.number({ integer: true, min: 1 }),
+  confirm: s.literal(true),
+  items: s.array(s.object({
+    id: s.string({ min: 1 }),
+    quantity: s.number({ integer: true, min: 1 }),
+    price: s.number({ min: 0 })
+  }), { min: 1 })
+});
 
-  if (path === '/api/orders' && method === 'GET') {
-    return await getUserOrders(request, user, env);
-  }
+/**
+ * 再次购买请求体，可为空（仅预览）
+ */
+const reorderSchema = s.optional(s.union(reorderConfirmSchema, s.object({
+  addressId: s.optional(s.number({ integer: true, min: 1 })),
+  confirm: s.optional(s.literal(false))
+})));
 
-  if (path.match(/^\/api\/orders\/\w+$/) && method === 'GET') {
-    const orderId = path.split('/').pop()!;
-    return await getOrderById(orderId, user, env);
-  }
+/**
+ * 后台更新订单状态请求体，状态可为前端状态或飞书状态
+ */
+const orderStatusSchema = s.object({
+  status: s.string({ min: 1 })
+});
+
+type OrderItemPayload = s.Infer<typeof orderItemSchema>;
+type OrderPayload = s.Infer<typeof orderSchema>;
+type ReorderConfirmPayload = s.Infer<typeof reorderConfirmSchema>;
+type OrderStatusPayload = s.Infer<typeof orderStatusSchema>;
+
+/**
+ * 注册订单相关路由
+ */
+export function registerOrderRoutes(router: Router): void {
+  const auth = authenticate();
+
+  router.post('/api/orders', [auth, s.jsonBody(orderSchema)], ({ request, env, user, body }) =>
+    withIdempotency(request, env, user.userId, () => createOrder(body, user, env)));
+  router.get('/api/orders', [auth], ({ request, env, user }) => getUserOrders(request, user, env));
+  router.get('/api/orders/export', [auth], ({ request, env, user }) => exportUserOrders(request, user, env));
+  router.get('/api/orders/:id', [auth], ({ env, user, params }) => getOrderById(params.id, user, env));
+  router.post('/api/orders/:id/cancel', [auth], ({ env, user, params }) => cancelOrder(params.id, user, env));
+  // 预览只读，只有确认下单需要幂等处理
+  router.post('/api/orders/:id/reorder', [auth, s.jsonBody(reorderSchema)], ({ request, env, user, params, body }) =>
+    body?.confirm === true
+      ? withIdempotency(request, env, user.userId, () => reorder(body, params.id, user, env))
+      : reorder(null, params.id, user, env));
+}
+
+/**
+ * 注册后台订单路由，运营和管理员均可访问
+ */
+export function registerAdminOrderRoutes(router: Router): void {
+  const staff = authenticate(STAFF_ROLES);
 
-  return new Response('Orders endpoint not found', { status: 404 });
+  router.get('/api/admin/orders', [staff], ({ request, env }) => getAllOrders(request, env));
+  router.get('/api/admin/orders/:id', [staff], ({ env, params }) => getAdminOrderById(params.id, env));
+  router.post('/api/admin/orders/:id/status', [staff, s.jsonBody(orderStatusSchema)], ({ env, user, params, body }) =>
+    updateOrderStatus(body, params.id, user, env));
 }
 
 /**
  * 创建订单
  */
-async function createOrder(request: Request, user: { userId: number; username: string }, env: Env): Promise<Response> {
+async function createOrder(body: OrderPayload, user: { userId: number; username: string }, env: Env): Promise<Response> {
   try {
-    const { items, addressId } = await request.json();
+    return await placeOrder(env, user, body.items, body.addressId);
+  } catch (error) {
+    console.error('Create order error:', error);
+    return errorResponse('ORDER_CREATE_FAILED');
+  }
+}
 
-    // 验证输入
-    if (!items || !Array.isArray(items) || items.length === 0 || !addressId) {
-      return new Response(JSON.stringify({ error: '订单项目和收货地址不能为空' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
+/**
+ * 校验商品和收货地址、预留库存并写入飞书
+ * 创建订单和再次购买共用，异常由调用方处理
+ */
+async function placeOrder(env: Env, user: { userId: number; username: string }, requestItems: OrderItemPayload[], addressId: number): Promise<Response> {
+  // 验证收货地址是否属于当前用户
+  const address = await env.DB.prepare(
+    'SELECT recipient_name, phone, address FROM addresses WHERE id = ? AND user_id = ?'
+  ).bind(addressId, user.userId).first() as { recipient_name: string; phone: string; address: string } | null;
 
-    // 验证收货地址是否属于当前用户
-    const address = await env.DB.prepare(
-      'SELECT recipient_name, phone, address FROM addresses WHERE id = ? AND user_id = ?'
-    ).bind(addressId, user.userId).first() as { recipient_name: string; phone: string; address: string } | null;
+  if (!address) {
+    return errorResponse('ADDRESS_NOT_FOUND');
+  }
 
-    if (!address) {
-      return new Response(JSON.stringify({ error: '收货地址不存在或无权限' }), {
-        status: 404,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
+  // 有规格的商品按规格（SKU）下单，skuId 与 id 均为库存表记录ID
+  const items = requestItems.map(item => ({ id: item.skuId ?? item.id, productId: item.id, quantity: item.quantity }));
+  const variantConfig = getVariantConfig(env);
 
-    // 验证商品库存并获取最新单价
-    const validatedItems = [];
-    for (const item of items) {
-      try {
-        // 从飞书获取商品详情
-        const productData = await callFeishuBitableApi(env, 'GET', `/tables/${env.FEISHU_STOCK_TABLE_ID}/records/${item.id}`);
-        const productFields = productData.record.fields;
-        
-        const currentStock = productFields['库存剩余'] || 0;
-        const currentPrice = productFields['商品单价'] || 0;
-        const productName = productFields['商品名称'] && productFields['商品名称'][0] ? productFields['商品名称'][0].text : 'Unknown Product';
-        
-        // 检查库存是否足够
-        if (item.quantity > currentStock) {
-          return new Response(JSON.stringify({ 
-            error: `商品「${productName}」库存不足，当前库存：${currentStock}，请求数量：${item.quantity}` 
-          }), {
-            status: 400,
-            headers: { 'Content-Type': 'application/json' },
-          });
-        }
-        
-        validatedItems.push({
-          ...item,
-          currentPrice,
-          productName
-        });
-      } catch (error: any) {
-        if (error.message.includes('code: 254404')) {
-          return new Response(JSON.stringify({ error: `商品不存在：${item.id}` }), {
-            status: 404,
-            headers: { 'Content-Type': 'application/json' },
-          });
-        }
-        throw error; // 重新抛出其他错误
+  // 获取商品最新库存和单价
+  const validatedItems = [];
+  for (const item of items) {
+    try {
+      // 从飞书获取商品详情
+      const productData = await callFeishuBitableApi(env, 'GET', `/tables/${env.FEISHU_STOCK_TABLE_ID}/records/${item.id}`);
+      const productFields = productData.record.fields;
+      
+      const currentStock = parseNumberField(productFields['库存剩余']);
+      const currentPrice = parseNumberField(productFields['商品单价']);
+      const productName = productFields['商品名称'] && productFields['商品名称'][0] ? productFields['商品名称'][0].text : 'Unknown Product';
+
+      // 规格必须属于所下单的商品，按飞书记录的父商品字段校验
+      if (item.id !== item.productId && formatProductRecord(productData.record, variantConfig).parentId !== item.productId) {
+        return errorResponse('VARIANT_MISMATCH', { productName, productId: item.productId, skuId: item.id });
+      }
+
+      // 父商品本身没有库存，必须选择具体规格
+      if (variantConfig.parentField && await hasCatalogVariants(env, item.id)) {
+        return errorResponse('VARIANT_REQUIRED', { productName });
       }
+      
+      validatedItems.push({
+        id: item.id,
+        quantity: item.quantity,
+        currentStock,
+        currentPrice,
+        productName
+      });
+    } catch (error) {
+      if (isFeishuError(error, 'not_found')) {
+        return errorResponse('PRODUCT_NOT_FOUND', { productId: item.id });
+      }
+      throw error; // 重新抛出其他错误
     }
+  }
 
-    const orderId = uuidv4(); // 生成唯一订单号
+  const orderId = uuidv4(); // 生成唯一订单号
 
-    const records = validatedItems.map((item: any) => ({
-      fields: {
-        '订单号': orderId,
-        '商品名称': [item.id],
-        '订单状态': '已下单',
-        '用户名称': user.username,
-        '订购数量': item.quantity,
-        '下单单价': parseFloat(item.currentPrice),
-        '收货人': address.recipient_name,
-        '联系方式': address.phone,
-        '收货地址': address.address,
-      },
-    }));
+  // 预留库存，可用库存需扣除其他订单的有效预留
+  const reservation = await reserveStock(env, orderId, validatedItems.map(item => ({
+    productId: item.id,
+    productName: item.productName,
+    quantity: item.quantity,
+    stock: item.currentStock
+  })));
 
-    await callFeishuBitableApi(env, 'POST', `/tables/${env.FEISHU_ORDER_TABLE_ID}/records/batch_create`, {
-      records,
+  if (!reservation.success) {
+    if (reservation.shortages.length === 0) {
+      return errorResponse('STOCK_UNAVAILABLE');
+    }
+    return errorResponse('INSUFFICIENT_STOCK', {
+      productNames: reservation.shortages.map(shortage => shortage.productName),
+      items: reservation.shortages
     });
+  }
 
-    return new Response(JSON.stringify({
-      success: true,
-      message: '订单创建成功',
-      orderId,
-    }), {
-      status: 201,
-      headers: { 'Content-Type': 'application/json' },
+  const records = validatedItems.map((item: any) => ({
+    fields: {
+      '订单号': orderId,
+      '商品名称': [item.id],
+      '订单状态': '已下单',
+      '用户名称': user.username,
+      '订购数量': item.quantity,
+      '下单单价': parseFloat(item.currentPrice),
+      '收货人': address.recipient_name,
+      '联系方式': address.phone,
+      '收货地址': address.address,
+    },
+  }));
+
+  try {
+    // 以订单号作为 client_token，重试时飞书不会重复写入订单行
+    await callFeishuBitableApi(env, 'POST', `/tables/${env.FEISHU_ORDER_TABLE_ID}/records/batch_create?client_token=${orderId}`, {
+      records,
     });
   } catch (error) {
-    console.error('Create order error:', error);
-    return new Response(JSON.stringify({ error: '创建订单失败' }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    // 写入飞书失败时释放预留
+    await releaseReservations(env, orderId);
+    throw error;
   }
+
+  await commitReservations(env, orderId);
+  await recordStatusChange(env, { orderId, toStatus: '已下单', changedBy: user.username, source: 'user' });
+
+  return jsonResponse({
+    success: true,
+    message: '订单创建成功',
+    orderId,
+  }, 201);
 }
 
 /**
  * 获取用户订单列表
- * 从飞书多维表格获取
+ * 从飞书多维表格获取，支持按状态、下单时间和商品名称筛选
  */
 async function getUserOrders(request: Request, user: { userId: number; username: string }, env: Env): Promise<Response> {
   try {
-    // 从飞书多维表格查询订单记录
-    const searchResult = await callFeishuBitableApi(env, 'POST', `/tables/${env.FEISHU_ORDER_TABLE_ID}/records/search`, {
-      field_names: [
-        '订单号',
-        '订单状态', 
-        '商品名称',
-        '订购数量',
-        '订单金额',
-        '下单时间',
-        '收货人',
-        '联系方式',
-        '收货地址'
-      ],
-      filter: {
-        conjunction: 'and',
-        conditions: [
-          {
-            field_name: '用户名称',
-            operator: 'is',
-            value: [user.username]
-          }
-        ]
-      },
-      sort: [
-        {
-          field_name: '下单时间',
-          desc: true
-        }
-      ]
-    });
-
-    // 按订单号聚合数据
-    const orderMap = new Map();
-    
-    if (searchResult.items && searchResult.items.length > 0) {
-      for (const record of searchResult.items) {
-        const fields = record.fields;
-        
-        // 解析订单号 - 处理数组格式
-        const orderIdField = fields['订单号'];
-        const orderId = Array.isArray(orderIdField) ? orderIdField[0]?.text : orderIdField;
-        
-        if (!orderId) continue;
-        
-        if (!orderMap.has(orderId)) {
-          // 映射飞书状态到前端状态
-          const feishuStatus = fields['订单状态'];
-          let frontendStatus = 'pending';
-          
-          switch (feishuStatus) {
-            case '已下单':
-              frontendStatus = 'pending';
-              break;
-            case '审核中':
-              frontendStatus = 'processing';
-              break;
-            case '发货中':
-              frontendStatus = 'shipped';
-              break;
-            case '已签收':
-              frontendStatus = 'received';
-              break;
-            case '已结算':
-              frontendStatus = 'completed';
-              break;
-            case '已取消':
-              frontendStatus = 'cancelled';
-              break;
-            default:
-              frontendStatus = 'pending';
-          }
-          
-          // 解析收货人 - 处理数组格式
-          const recipientField = fields['收货人'];
-          const recipientName = Array.isArray(recipientField) ? recipientField[0]?.text : recipientField;
-          
-          // 解析收货地址 - 处理数组格式
-          const addressField = fields['收货地址'];
-          const address = Array.isArray(addressField) ? addressField[0]?.text : addressField;
-          
-          // 解析下单时间 - 处理时间戳
-          const createdTime = fields['下单时间'];
-          const createdAt = createdTime ? new Date(createdTime).toISOString() : new Date().toISOString();
-          
-          orderMap.set(orderId, {
-            id: orderId,
-            status: frontendStatus,
-            items: [],
-            total: 0,
-            created_at: createdAt,
-            address: {
-              recipient_name: recipientName || '',
-              phone: fields['联系方式'] || '',
-              address: address || ''
-            }
-          });
-        }
-        
-        // 添加商品项到订单
-        const order = orderMap.get(orderId);
-        
-        // 解析商品名称 - 处理link_record_ids格式
-        const productNameField = fields['商品名称'];
-        const productId = productNameField?.link_record_ids?.[0] || 'unknown';
-        
-        // 解析订购数量
-        const quantity = parseInt(fields['订购数量']) || 1;
-        
-        // 解析订单金额 - 处理复杂对象格式
-        const amountField = fields['订单金额'];
-        const amount = amountField?.value?.[0] || 0;
-        
-        order.items.push({
-          productId,
-          quantity,
-          amount
-        });
-        
-        order.total += amount;
-      }
+    const filters = parseOrderFilters(new URL(request.url));
+    if ('error' in filters) {
+      return errorResponse(filters.error);
     }
-    
-    // 转换为数组格式
-    const orders = Array.from(orderMap.values());
 
-    return new Response(JSON.stringify({
+    const orders = await listOrders(env, user.username, filters);
+
+    return jsonResponse({
       success: true,
       orders: orders,
       total: orders.length
-    }), {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' },
     });
   } catch (error) {
     console.error('Get user orders error:', error);
-    return new Response(JSON.stringify({ error: '获取订单列表失败' }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' },
+    return errorResponse('ORDER_LIST_FAILED');
+  }
+}
+
+/**
+ * 订单导出列
+ */
+const ORDER_EXPORT_HEADER = ['订单号', '下单时间', '订单状态', '商品名称', '订购数量', '下单单价', '订单金额', '收货人'];
+
+/**
+ * 导出用户订单
+ * 筛选参数与订单列表相同，每个商品项一行；format=csv（默认）或 xlsx
+ */
+async function exportUserOrders(request: Request, user: { userId: number; username: string }, env: Env): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const format = url.searchParams.get('format') || 'csv';
+    if (format !== 'csv' && format !== 'xlsx') {
+      return errorResponse('EXPORT_FORMAT_INVALID');
+    }
+
+    const filters = parseOrderFilters(url);
+    if ('error' in filters) {
+      return errorResponse(filters.error);
+    }
+
+    const orders = await listOrders(env, user.username, filters);
+    const rows: CellValue[][] = orders.flatMap(order => order.items.map(item => [
+      order.id,
+      formatExportTime(order.created_at),
+      toFeishuStatus(order.status as OrderStatus),
+      item.productName || '未知商品',
+      item.quantity,
+      item.price,
+      item.amount,
+      order.address.recipient_name
+    ]));
+
+    const filename = `orders-${formatExportTime(new Date().toISOString()).slice(0, 10).replace(/-/g, '')}.${format}`;
+    const body = format === 'csv'
+      ? buildCsv(ORDER_EXPORT_HEADER, rows)
+      : buildXlsx('订单', ORDER_EXPORT_HEADER, rows);
+
+    return new Response(body, {
+      status: 200,
+      headers: {
+        'Content-Type': format === 'csv'
+          ? 'text/csv; charset=utf-8'
+          : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
     });
+  } catch (error) {
+    console.error('Export orders error:', error);
+    return errorResponse('ORDER_EXPORT_FAILED');
   }
 }
 
+/**
+ * 导出时间按北京时间（UTC+8）格式化为 YYYY-MM-DD HH:MM:SS
+ */
+function formatExportTime(isoTime: string): string {
+  return new Date(Date.parse(isoTime) + 8 * 60 * 60 * 1000).toISOString().slice(0, 19).replace('T', ' ');
+}
+
 /**
  * 根据ID获取订单详情
- * TODO: 从飞书多维表格获取
+ * 从飞书多维表格获取，只允许查询当前用户自己的订单
  */
 async function getOrderById(orderId: string, user: { userId: number; username: string }, env: Env): Promise<Response> {
   try {
-    // 暂时返回模拟数据
-    const mockOrder = {
+    const records = await searchOrderRecords(env, orderId, user.username);
+    const order = aggregateOrderRecords(records).get(orderId);
+
+    // 订单不存在或不属于当前用户时统一返回404，避免泄露订单是否存在
+    if (!order) {
+      return errorResponse('ORDER_NOT_FOUND');
+    }
+
+    // 补充商品名称
+    const productNames = await fetchProductNames(env, order.items.map(item => item.productId));
+    for (const item of order.items) {
+      item.productName = productNames.get(item.productId) || '未知商品';
+    }
+
+    return jsonResponse({
+      success: true,
+      order: {
+        ...order,
+        timeline: buildOrderTimeline(order, await getStatusHistory(env, orderId))
+      }
+    });
+  } catch (error) {
+    console.error('Get order by id error:', error);
+    return errorResponse('ORDER_FETCH_FAILED');
+  }
+}
+
+/**
+ * 取消订单
+ * 仅允许在已下单、审核中状态下取消，订单号下的所有记录同时更新
+ */
+async function cancelOrder(orderId: string, user: { userId: number; username: string }, env: Env): Promise<Response> {
+  try {
+    const records = await searchOrderRecords(env, orderId, user.username);
+
+    if (records.length === 0) {
+      return errorResponse('ORDER_NOT_FOUND');
+    }
+
+    const blockedStatus = await transitionOrderRecords(env, orderId, records, '已取消', user.username, 'user');
+    if (blockedStatus) {
+      return errorResponse('ORDER_NOT_CANCELLABLE', { status: blockedStatus });
+    }
+
+    return jsonResponse({
+      success: true,
+      message: '订单已取消',
       orderId,
-      userId: user.userId,
-      productId: 'prod_001',
-      productName: '精选苹果',
-      quantity: 2,
-      price: 12.8,
-      totalAmount: 25.6,
-      status: 'completed',
-      createdAt: new Date().toISOString(),
-      address: {
-        recipientName: '张三',
-        phone: '13800138000',
-        address: '北京市朝阳区xxx街道xxx号'
-      },
-      timeline: [
-        {
-          status: 'created',
-          message: '订单已创建',
-          timestamp: new Date(Date.now() - 3600000).toISOString()
-        },
-        {
-          status: 'confirmed',
-          message: '订单已确认',
-          timestamp: new Date(Date.now() - 1800000).toISOString()
-        },
-        {
-          status: 'completed',
-          message: '订单已完成',
-          timestamp: new Date().toISOString()
-        }
-      ]
+      status: toOrderStatus('已取消')
+    });
+  } catch (error) {
+    console.error('Cancel order error:', error);
+    return errorResponse('ORDER_CANCEL_FAILED');
+  }
+}
+
+/**
+ * 再次购买
+ * 按原订单的商品和数量重新校验当前库存和单价。未确认（confirmation 为null）时只返回预览，列出价格变化和无法购买的商品；
+ * 确认时需带回预览中可购买的商品、数量和单价（items），与当前结果不一致时返回 REORDER_CHANGED 和最新预览，不创建订单
+ */
+async function reorder(confirmation: ReorderConfirmPayload | null, orderId: string, user: { userId: number; username: string }, env: Env): Promise<Response> {
+  try {
+    const records = await searchOrderRecords(env, orderId, user.username);
+    const order = aggregateOrderRecords(records).get(orderId);
+
+    if (!order) {
+      return errorResponse('ORDER_NOT_FOUND');
+    }
+
+    const lines = await buildReorderLines(env, order);
+    const available = lines.filter(line => line.issue === null);
+    const preview = {
+      orderId,
+      items: lines,
+      priceChanges: available.filter(line => line.priceChanged),
+      unavailable: lines.filter(line => line.issue !== null),
+      total: available.reduce((sum, line) => sum + line.price * line.quantity, 0)
     };
 
-    return new Response(JSON.stringify({
+    if (!confirmation) {
+      return jsonResponse({ success: true, ...preview });
+    }
+
+    if (available.length === 0) {
+      return errorResponse('REORDER_UNAVAILABLE');
+    }
+
+    // 预览后价格、库存变化导致商品、数量或单价不同时，需用户重新确认
+    const { addressId, items } = confirmation;
+    const confirmed = new Map(items.map(item => [item.id, item]));
+    const changed = confirmed.size !== items.length || available.length !== confirmed.size || available.some(line => {
+      const item = confirmed.get(line.productId);
+      return !item || item.quantity !== line.quantity || item.price !== line.price;
+    });
+    if (changed) {
+      return errorResponse('REORDER_CHANGED', { preview });
+    }
+
+    return await placeOrder(env, user, available.map(line => ({ id: line.productId, quantity: line.quantity })), addressId);
+  } catch (error) {
+    console.error('Reorder error:', error);
+    return errorResponse('REORDER_FAILED');
+  }
+}
+
+/**
+ * 再次购买的商品项，商品已删除（not_found）时没有当前单价
+ */
+type ReorderLine = {
+  productId: string;
+  name: string;
+  quantity: number;
+  originalPrice: number;
+  priceChanged: boolean;
+  stock: number;
+} & (
+  | { issue: null; price: number }
+  | { issue: 'variant_required' | 'out_of_stock' | 'insufficient_stock'; price: number }
+  | { issue: 'not_found'; price: null }
+);
+
+/**
+ * 按原订单商品生成再次购买的商品项，同一商品的多条记录合并数量
+ * 库存扣除其他订单的有效预留
+ */
+async function buildReorderLines(env: Env, order: Order): Promise<ReorderLine[]> {
+  const ordered = new Map<string, { quantity: number; price: number }>();
+  for (const item of order.items) {
+    const existing = ordered.get(item.productId);
+    ordered.set(item.productId, {
+      quantity: (existing?.quantity || 0) + item.quantity,
+      price: item.price
+    });
+  }
+
+  const productIds = [...ordered.keys()].filter(id => id !== 'unknown');
+  const products = await fetchProductsByIds(env, productIds);
+  const stocks = new Map((await withAvailableStock(env, [...products.values()])).map(product => [product.id, product.stock]));
+  const variantConfig = getVariantConfig(env);
+
+  const lines: ReorderLine[] = [];
+  for (const [productId, { quantity, price: originalPrice }] of ordered) {
+    const product = products.get(productId);
+    if (!product) {
+      lines.push({ productId, name: '未知商品', quantity, originalPrice, price: null, priceChanged: false, stock: 0, issue: 'not_found' });
+      continue;
+    }
+
+    const stock = stocks.get(productId) || 0;
+    let issue: ReorderLine['issue'] = null;
+    if (variantConfig.parentField && await hasCatalogVariants(env, productId)) {
+      issue = 'variant_required';
+    } else if (stock <= 0) {
+      issue = 'out_of_stock';
+    } else if (stock < quantity) {
+      issue = 'insufficient_stock';
+    }
+
+    lines.push({
+      productId,
+      name: product.name,
+      quantity,
+      originalPrice,
+      price: product.price,
+      priceChanged: product.price !== originalPrice,
+      stock,
+      issue
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * 后台订单列表
+ * 查询全部用户的订单，筛选参数与用户订单列表相同，另支持按用户名（user）筛选和分页（page、pageSize）；
+ * 全表订单数需要遍历全部记录才能得到，因此只返回是否还有下一页（hasMore）
+ */
+async function getAllOrders(request: Request, env: Env): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const filters = parseOrderFilters(url);
+    if ('error' in filters) {
+      return errorResponse(filters.error);
+    }
+
+    const page = Math.max(1, parseInt(url.searchParams.get('page') || '1', 10) || 1);
+    const pageSize = Math.min(100, Math.max(1, parseInt(url.searchParams.get('pageSize') || '', 10) || 20));
+
+    const { orders, hasMore } = await listOrderPage(env, url.searchParams.get('user')?.trim() || null, filters, (page - 1) * pageSize, pageSize);
+
+    return jsonResponse({
       success: true,
-      order: mockOrder
-    }), {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' },
+      orders,
+      hasMore,
+      page,
+      pageSize
     });
   } catch (error) {
-    console.error('Get order by id error:', error);
-    return new Response(JSON.stringify({ error: '获取订单详情失败' }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' },
+    console.error('Get all orders error:', error);
+    return errorResponse('ORDER_LIST_FAILED');
+  }
+}
+
+/**
+ * 后台订单详情，包含完整的状态变更记录
+ */
+async function getAdminOrderById(orderId: string, env: Env): Promise<Response> {
+  try {
+    const records = await searchOrderRecords(env, orderId, null);
+    const order = aggregateOrderRecords(records).get(orderId);
+
+    if (!order) {
+      return errorResponse('ORDER_NOT_FOUND');
+    }
+
+    const productNames = await fetchProductNames(env, order.items.map(item => item.productId));
+    for (const item of order.items) {
+      item.productName = productNames.get(item.productId) || '未知商品';
+    }
+
+    const history = await getStatusHistory(env, orderId);
+
+    return jsonResponse({
+      success: true,
+      order: {
+        ...order,
+        timeline: buildOrderTimeline(order, history),
+        history
+      }
     });
+  } catch (error) {
+    console.error('Get admin order by id error:', error);
+    return errorResponse('ORDER_FETCH_FAILED');
   }
 }
 
 /**
- * 飞书API集成函数（待实现）
+ * 后台变更订单状态
+ * 请求体 status 可为前端状态（如 shipped）或飞书状态（如 发货中），只允许按状态机流转
  */
+async function updateOrderStatus(body: OrderStatusPayload, orderId: string, user: AuthUser, env: Env): Promise<Response> {
+  try {
+    const { status } = body;
+
+    const toStatus = isOrderStatus(status) ? toFeishuStatus(status) : isFeishuOrderStatus(status) ? status : null;
+    if (!toStatus) {
+      return errorResponse('ORDER_STATUS_INVALID');
+    }
+
+    const records = await searchOrderRecords(env, orderId, null);
+    if (records.length === 0) {
+      return errorResponse('ORDER_NOT_FOUND');
+    }
+
+    const blockedStatus = await transitionOrderRecords(env, orderId, records, toStatus, user.username, 'admin');
+    if (blockedStatus) {
+      return errorResponse('ORDER_STATUS_CONFLICT', { status: blockedStatus, targetStatus: toStatus });
+    }
+
+    return jsonResponse({
+      success: true,
+      message: `订单状态已更新为「${toStatus}」`,
+      orderId,
+      status: toOrderStatus(toStatus)
+    });
+  } catch (error) {
+    console.error('Update order status error:', error);
+    return errorResponse('ORDER_STATUS_UPDATE_FAILED');
+  }
+}
 
 /**
- * 将订单写入飞书多维表格
+ * 将订单号下的全部飞书记录流转到目标状态，并记录操作人
+ * 任一记录不允许流转时不做任何修改
+ * @returns 阻止流转的当前状态，流转成功时返回null
  */
-async function writeOrderToFeishu(orderData: any, env: Env): Promise<void> {
-  // TODO: 实现飞书多维表格写入
-  // const token = await getFeishuAccessToken(env);
-  // const response = await fetch(`https://open.feishu.cn/open-apis/bitable/v1/apps/{app_token}/tables/{table_id}/records`, {
-  //   method: 'POST',
-  //   headers: {
-  //     'Authorization': `Bearer ${token}`,
-  //     'Content-Type': 'application/json'
-  //   },
-  //   body: JSON.stringify({
-  //     fields: orderData
-  //   })
-  // });
-  
-  throw new Error('Feishu integration not implemented yet');
+async function transitionOrderRecords(
+  env: Env,
+  orderId: string,
+  records: any[],
+  toStatus: FeishuOrderStatus,
+  changedBy: string,
+  source: StatusChangeSource
+): Promise<string | null> {
+  const blockedRecord = records.find(record => !canTransition(record.fields['订单状态'], toStatus));
+  if (blockedRecord) {
+    return blockedRecord.fields['订单状态'] || '已下单';
+  }
+
+  await callFeishuBitableApi(env, 'POST', `/tables/${env.FEISHU_ORDER_TABLE_ID}/records/batch_update`, {
+    records: records.map(record => ({
+      record_id: record.record_id,
+      fields: { '订单状态': toStatus }
+    }))
+  });
+
+  await recordStatusChange(env, { orderId, toStatus, changedBy, source });
+  return null;
 }
 
 /**
- * 从飞书多维表格获取订单数据
- */
-async function fetchOrdersFromFeishu(userId: number, env: Env): Promise<any[]> {
-  // TODO: 实现飞书多维表格数据获取
-  // const token = await getFeishuAccessToken(env);
-  // const response = await fetch(`https://open.feishu.cn/open-apis/bitable/v1/apps/{app_token}/tables/{table_id}/records?filter=user_id=${userId}`, {
-  //   headers: {
-  //     'Authorization': `Bearer ${token}`
-  //   }
-  // });
-  // const data = await response.json();
-  // return data.data.items;
-  
-  throw new Error('Feishu integration not implemented yet');
-}
\ No newline at end of file
+ * 查询指定订单号的全部飞书记录
+ * 指定用户名时只返回该用户的记录
+ */
+async function searchOrderRecords(env: Env, orderId: string, username: string | null): Promise<any[]> {
+  const conditions: any[] = [
+    {
+      field_name: '订单号',
+      operator: 'is',
+      value: [orderId]
+    }
+  ];
+
+  if (username) {
+    conditions.push({
+      field_name: '用户名称',
+      operator: 'is',
+      value: [username]
+    });
+  }
+
+  return await searchAllBitableRecords(env, env.FEISHU_ORDER_TABLE_ID, {
+    field_names: ORDER_FIELD_NAMES,
+    filter: {
+      conjunction: 'and',
+      conditions
+    }
+  });
+}
+
+/**
+ * 订单列表筛选条件
+ */
+interface OrderFilters {
+  status?: OrderStatus;
+  from?: number;
+  to?: number;
+  keyword?: string;
+}
+
+/**
+ * 一天的毫秒数
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 解析订单列表筛选参数
+ * status: 订单状态；from/to: 下单时间范围（日期或ISO时间）；q: 商品名称关键字
+ */
+function parseOrderFilters(url: URL): OrderFilters | { error: ErrorCode } {
+  const filters: OrderFilters = {};
+
+  const status = url.searchParams.get('status');
+  if (status && status !== 'all') {
+    if (!isOrderStatus(status)) {
+      return { error: 'ORDER_STATUS_INVALID' };
+    }
+    filters.status = status;
+  }
+
+  const from = url.searchParams.get('from');
+  if (from) {
+    filters.from = Date.parse(from);
+    if (isNaN(filters.from)) {
+      return { error: 'DATE_FROM_INVALID' };
+    }
+  }
+
+  const to = url.searchParams.get('to');
+  if (to) {
+    filters.to = Date.parse(to);
+    if (isNaN(filters.to)) {
+      return { error: 'DATE_TO_INVALID' };
+    }
+    // 仅指定日期时包含当天全天
+    if (/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+      filters.to += DAY_MS - 1;
+    }
+  }
+
+  if (filters.from !== undefined && filters.to !== undefined && filters.from > filters.to) {
+    return { error: 'DATE_RANGE_INVALID' };
+  }
+
+  const keyword = url.searchParams.get('q')?.trim();
+  if (keyword) {
+    filters.keyword = keyword.toLowerCase();
+  }
+
+  return filters;
+}
+
+/**
+ * 查询订单
+ * 拉取飞书全部分页后按订单号聚合，并补充商品名称后应用筛选条件；用户名为null时查询全部用户
+ */
+async function listOrders(env: Env, username: string | null, filters: OrderFilters): Promise<Order[]> {
+  const records = await searchAllBitableRecords(env, env.FEISHU_ORDER_TABLE_ID, buildOrderSearch(username, filters));
+
+  // 按订单号聚合数据
+  const orders = Array.from(aggregateOrderRecords(records).values());
+  await fillProductNames(env, orders);
+
+  return orders.filter(order => matchesOrderFilters(order, filters));
+}
+
+/**
+ * 分页查询订单
+ * 按下单时间倒序逐页拉取飞书记录，凑够当前页（多取一个订单用于判断是否还有下一页）后停止拉取；
+ * 只有按商品名称筛选时需要为扫描到的订单查询商品名称，否则只查询当前页订单的商品名称
+ */
+async function listOrderPage(
+  env: Env,
+  username: string | null,
+  filters: OrderFilters,
+  offset: number,
+  limit: number
+): Promise<{ orders: Order[]; hasMore: boolean }> {
+  const records: any[] = [];
+  const productNames = new Map<string, string>();
+  let matched: Order[] = [];
+  let complete = true;
+
+  for await (const items of searchBitableRecordPages(env, env.FEISHU_ORDER_TABLE_ID, buildOrderSearch(username, filters))) {
+    records.push(...items);
+
+    // 同一订单的记录下单时间相同、在排序中相邻，最后一个订单可能在下一页还有记录，暂不计入
+    const orders = Array.from(aggregateOrderRecords(records).values()).slice(0, -1);
+    if (filters.keyword) {
+      await fillProductNames(env, orders, productNames);
+    }
+    matched = orders.filter(order => matchesOrderFilters(order, filters));
+    if (matched.length > offset + limit) {
+      complete = false;
+      break;
+    }
+  }
+
+  if (complete) {
+    const orders = Array.from(aggregateOrderRecords(records).values());
+    if (filters.keyword) {
+      await fillProductNames(env, orders, productNames);
+    }
+    matched = orders.filter(order => matchesOrderFilters(order, filters));
+  }
+
+  const page = matched.slice(offset, offset + limit);
+  await fillProductNames(env, page, productNames);
+  return { orders: page, hasMore: matched.length > offset + limit };
+}
+
+/**
+ * 生成订单查询条件，用户名、订单状态和下单时间范围由飞书筛选
+ * 飞书的日期条件按天比较，时间范围各放宽一天，精确范围由 matchesOrderFilters 过滤
+ */
+function buildOrderSearch(username: string | null, filters: OrderFilters): any {
+  const conditions: any[] = [];
+
+  if (username) {
+    conditions.push({
+      field_name: '用户名称',
+      operator: 'is',
+      value: [username]
+    });
+  }
+
+  if (filters.status) {
+    conditions.push({
+      field_name: '订单状态',
+      operator: 'is',
+      value: [toFeishuStatus(filters.status)]
+    });
+  }
+
+  if (filters.from !== undefined) {
+    conditions.push({
+      field_name: '下单时间',
+      operator: 'isGreater',
+      value: ['ExactDate', String(filters.from - DAY_MS)]
+    });
+  }
+
+  if (filters.to !== undefined) {
+    conditions.push({
+      field_name: '下单时间',
+      operator: 'isLess',
+      value: ['ExactDate', String(filters.to + DAY_MS)]
+    });
+  }
+
+  return {
+    field_names: ORDER_FIELD_NAMES,
+    filter: conditions.length > 0 ? {
+      conjunction: 'and',
+      conditions
+    } : undefined,
+    sort: [
+      {
+        field_name: '下单时间',
+        desc: true
+      }
+    ]
+  };
+}
+
+/**
+ * 补充订单商品名称
+ * productNames 为已查询的商品名称，只查询其中没有的商品，查询结果也记入其中
+ */
+async function fillProductNames(env: Env, orders: Order[], productNames = new Map<string, string>()): Promise<void> {
+  const items = orders.flatMap(order => order.items);
+  const missingIds = items.map(item => item.productId).filter(productId => !productNames.has(productId));
+  if (missingIds.length > 0) {
+    const fetched = await fetchProductNames(env, missingIds);
+    // 查不到的商品也记入，避免重复查询
+    for (const productId of missingIds) {
+      productNames.set(productId, fetched.get(productId) || '');
+    }
+  }
+
+  for (const item of items) {
+    item.productName = productNames.get(item.productId) || '未知商品';
+  }
+}
+
+/**
+ * 判断订单是否满足下单时间范围和商品名称筛选
+ */
+function matchesOrderFilters(order: Order, filters: OrderFilters): boolean {
+  const createdAt = Date.parse(order.created_at);
+  if (filters.from !== undefined && createdAt < filters.from) {
+    return false;
+  }
+  if (filters.to !== undefined && createdAt > filters.to) {
+    return false;
+  }
+  if (filters.keyword && !order.items.some(item => item.productName?.toLowerCase().includes(filters.keyword!))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 订单查询需要的飞书字段
+ */
+const ORDER_FIELD_NAMES = [
+  '订单号',
+  '订单状态',
+  '用户名称',
+  '商品名称',
+  '订购数量',
+  '下单单价',
+  '订单金额',
+  '下单时间',
+  '收货人',
+  '联系方式',
+  '收货地址'
+];
+
+/**
+ * 订单商品项
+ */
+interface OrderItem {
+  recordId: string;
+  productId: string;
+  productName?: string;
+  quantity: number;
+  price: number;
+  amount: number;
+}
+
+/**
+ * 聚合后的订单
+ */
+interface Order {
+  id: string;
+  username: string;
+  status: string;
+  items: OrderItem[];
+  total: number;
+  created_at: string;
+  address: {
+    recipient_name: string;
+    phone: string;
+    address: string;
+  };
+}
+
+/**
+ * 统计用户订单数（按订单号去重）
+ */
+export async function countUserOrders(env: Env, username: string): Promise<number> {
+  const records = await searchAllBitableRecords(env, env.FEISHU_ORDER_TABLE_ID, {
+    field_names: ['订单号'],
+    filter: {
+      conjunction: 'and',
+      conditions: [
+        {
+          field_name: '用户名称',
+          operator: 'is',
+          value: [username]
+        }
+      ]
+    }
+  });
+
+  return new Set(records.map(record => getTextValue(record.fields['订单号'])).filter(Boolean)).size;
+}
+
+/**
+ * 解析飞书文本字段 - 处理数组格式
+ */
+export function getTextValue(field: any): string {
+  return Array.isArray(field) ? field[0]?.text || '' : field || '';
+}
+
+/**
+ * 将飞书订单记录按订单号聚合为订单
+ * 飞书订单表中每条记录对应一个商品项，同一订单号的多条记录组成一个订单
+ */
+function aggregateOrderRecords(records: any[]): Map<string, Order> {
+  const orderMap = new Map<string, Order>();
+
+  for (const record of records) {
+    const fields = record.fields;
+
+    const orderId = getTextValue(fields['订单号']);
+    if (!orderId) continue;
+
+    if (!orderMap.has(orderId)) {
+      // 解析下单时间 - 处理时间戳
+      const createdTime = fields['下单时间'];
+      const createdAt = createdTime ? new Date(createdTime).toISOString() : new Date().toISOString();
+
+      orderMap.set(orderId, {
+        id: orderId,
+        username: getTextValue(fields['用户名称']),
+        status: toOrderStatus(fields['订单状态']),
+        items: [],
+        total: 0,
+        created_at: createdAt,
+        address: {
+          recipient_name: getTextValue(fields['收货人']),
+          phone: fields['联系方式'] || '',
+          address: getTextValue(fields['收货地址'])
+        }
+      });
+    }
+
+    // 添加商品项到订单
+    const order = orderMap.get(orderId)!;
+
+    // 解析商品名称 - 处理link_record_ids格式
+    const productId = fields['商品名称']?.link_record_ids?.[0] || 'unknown';
+
+    // 解析订购数量和下单单价
+    const quantity = parseInt(fields['订购数量']) || 1;
+    const price = parseFloat(fields['下单单价']) || 0;
+
+    // 解析订单金额 - 处理复杂对象格式，缺失时按单价计算
+    const amountField = fields['订单金额'];
+    const amount = amountField?.value?.[0] ?? price * quantity;
+
+    order.items.push({
+      recordId: record.record_id,
+      productId,
+      quantity,
+      price,
+      amount
+    });
+
+    order.total += amount;
+  }
+
+  return orderMap;
+}
+
+/**
+ * 批量获取商品名称
+ */
+async function fetchProductNames(env: Env, productIds: string[]): Promise<Map<string, string>> {
+  const products = await fetchProductsByIds(env, productIds.filter(id => id !== 'unknown'));
+  return new Map([...products].map(([productId, product]) => [productId, product.name]));
+}
+
+/**
+ * 生成订单状态时间线
+ * 各节点时间取自订单状态历史，缺少历史时下单节点使用下单时间
+ */
+function buildOrderTimeline(order: Order, history: StatusHistoryEntry[]): { status: string; label: string; completed: boolean; timestamp: string | null }[] {
+  // 取每个状态最近一次进入的时间
+  const reachedAt = new Map<string, string>();
+  for (const entry of history) {
+    reachedAt.set(entry.toStatus, entry.createdAt);
+  }
+  if (!reachedAt.has('已下单')) {
+    reachedAt.set('已下单', order.created_at);
+  }
+
+  if (order.status === 'cancelled') {
+    return [
+      { status: 'pending', label: '已下单', completed: true, timestamp: reachedAt.get('已下单')! },
+      { status: 'cancelled', label: '已取消', completed: true, timestamp: reachedAt.get('已取消') || null }
+    ];
+  }
+
+  const currentIndex = ORDER_STATUS_FLOW.findIndex(label => toOrderStatus(label) === order.status);
+  return ORDER_STATUS_FLOW.map((label, index) => ({
+    status: toOrderStatus(label),
+    label,
+    completed: index <= currentIndex,
+    timestamp: index <= currentIndex ? reachedAt.get(label) || null : null
+  }));
+}
@@ -4,99 +4,186 @@
  */
 
 import type { Env } from './index';
-import { callFeishuBitableApi } from './utils/feishu';
+import { batchGetBitableRecords, callFeishuBitableApi, getFeishuAccessToken, isFeishuError, searchAllBitableRecords } from './utils/feishu';
+import { getReservedQuantities } from './utils/reservation';
+import {
+  formatProductRecord,
+  getVariantConfig,
+  getProductFieldNames,
+  groupVariants,
+  getCatalogVariants,
+  fetchCategoriesFromFeishu,
+  getCatalogSyncedAt,
+  queryCatalogProducts,
+  getCatalogProduct,
+  getCatalogCategories,
+  isProductSort,
+  type Product,
+  type GroupedProduct,
+  type ProductQuery,
+  type ProductSort,
+  type VariantConfig
+} from './catalog';
+import type { Router } from './utils/router';
+import { errorResponse, jsonResponse, type ErrorCode, type ErrorDetails } from './utils/response';
 
 /**
- * 处理商品相关请求
+ * 商品列表分页配置
  */
-export async function handleProducts(request: Request, env: Env, path: string): Promise<Response> {
-  const method = request.method;
+const DEFAULT_PAGE_SIZE = 9;
+const MAX_PAGE_SIZE = 100;
 
-  if (path === '/api/products' && method === 'GET') {
-    return await getProducts(request, env);
-  }
-
-  if (path === '/api/products/categories' && method === 'GET') {
-    return await getProductCategories(env);
-  }
+/**
+ * 单次查询最多选择的分类数
+ */
+const MAX_CATEGORIES = 20;
 
-  if (path.match(/^\/api\/products\/\w+$/) && method === 'GET') {
-    const productId = path.split('/').pop()!;
-    return await getProductById(productId, env);
-  }
+/**
+ * 飞书排序字段
+ * 上新排序依据记录的自动创建时间（created_time），飞书查询接口只能按表中字段排序，因此直接查询飞书时不支持上新排序
+ */
+const FEISHU_SORT_FIELDS: Partial<Record<ProductSort, { field_name: string; desc: boolean }>> = {
+  price_asc: { field_name: '商品单价', desc: false },
+  price_desc: { field_name: '商品单价', desc: true },
+  stock: { field_name: '库存剩余', desc: true }
+};
 
-  return new Response('Products endpoint not found', { status: 404 });
+/**
+ * 注册商品相关路由
+ */
+export function registerProductRoutes(router: Router): void {
+  router.get('/api/products', [], ({ request, env }) => getProducts(request, env));
+  router.get('/api/products/categories', [], ({ env }) => getProductCategories(env));
+  router.get('/api/products/:id', [], ({ env, params }) => getProductById(params.id, env));
+  router.get('/api/image_proxy', [], ({ request, env }) => handleImageProxy(request, env));
 }
 
 /**
  * 获取商品列表
+ * 支持搜索（q）、多分类（category，可重复或逗号分隔）、价格区间（minPrice/maxPrice）、
+ * 仅看有货（inStock=true）和排序（sort=price_asc|price_desc|stock|newest）
  */
 async function getProducts(request: Request, env: Env): Promise<Response> {
   try {
     const url = new URL(request.url);
     const pageToken = url.searchParams.get('pageToken') || '';
-    const pageSize = parseInt(url.searchParams.get('pageSize') || '9', 10);
-    const searchTerm = url.searchParams.get('q') || '';
-    const category = url.searchParams.get('category') || '';
 
-    const { products, hasMore, nextPageToken } = await fetchProductsFromFeishu(env, pageToken, pageSize, searchTerm, category);
-    return new Response(JSON.stringify({
+    const pageSizeParam = url.searchParams.get('pageSize');
+    const pageSize = pageSizeParam ? Number(pageSizeParam) : DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      return errorResponse('PAGE_SIZE_INVALID', { max: MAX_PAGE_SIZE });
+    }
+
+    const query = parseProductQuery(url);
+    if ('error' in query) {
+      return errorResponse(query.error, query.details);
+    }
+
+    // 优先从D1镜像读取，镜像为空或沿用飞书分页token时回退到飞书
+    const syncedAt = await getCatalogSyncedAt(env);
+    const fromCatalog = syncedAt !== null && (!pageToken || /^\d+$/.test(pageToken));
+    if (!fromCatalog && query.sort && !FEISHU_SORT_FIELDS[query.sort]) {
+      return errorResponse('SORT_UNAVAILABLE', { sort: query.sort });
+    }
+
+    const { products, hasMore, nextPageToken } = fromCatalog
+      ? await queryCatalogProducts(env, parseInt(pageToken || '0', 10), pageSize, query)
+      : await fetchProductsFromFeishu(env, pageToken, pageSize, query);
+
+    return jsonResponse({
       success: true,
-      products: products,
+      products: await withVariants(env, products, fromCatalog),
       hasMore: hasMore,
       nextPageToken: nextPageToken,
-    }), {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' },
+      syncedAt: fromCatalog ? syncedAt : null,
     });
   } catch (error) {
+    if (isFeishuError(error, 'rate_limited')) {
+      return errorResponse('RATE_LIMITED', null, { 'Retry-After': '1' });
+    }
     console.error('Get products error:', error);
-    return new Response(JSON.stringify({ error: '获取商品列表失败' }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    return errorResponse('PRODUCT_LIST_FAILED');
   }
 }
 
+/**
+ * 解析商品列表查询参数
+ */
+function parseProductQuery(url: URL): ProductQuery | { error: ErrorCode; details?: ErrorDetails } {
+  const categories = [...new Set(
+    url.searchParams.getAll('category')
+      .flatMap(value => value.split(','))
+      .map(value => value.trim())
+      .filter(Boolean)
+  )];
+  if (categories.length > MAX_CATEGORIES) {
+    return { error: 'TOO_MANY_CATEGORIES', details: { max: MAX_CATEGORIES } };
+  }
+
+  const minPrice = parsePriceParam(url.searchParams.get('minPrice'));
+  if (Number.isNaN(minPrice)) {
+    return { error: 'MIN_PRICE_INVALID' };
+  }
+
+  const maxPrice = parsePriceParam(url.searchParams.get('maxPrice'));
+  if (Number.isNaN(maxPrice)) {
+    return { error: 'MAX_PRICE_INVALID' };
+  }
+
+  if (minPrice !== null && maxPrice !== null && minPrice > maxPrice) {
+    return { error: 'PRICE_RANGE_INVALID' };
+  }
+
+  const inStock = url.searchParams.get('inStock');
+  if (inStock && inStock !== 'true' && inStock !== 'false') {
+    return { error: 'IN_STOCK_INVALID' };
+  }
+
+  const sort = url.searchParams.get('sort') || null;
+  if (sort !== null && !isProductSort(sort)) {
+    return { error: 'SORT_INVALID', details: { sort } };
+  }
+
+  return {
+    searchTerm: url.searchParams.get('q')?.trim() || '',
+    categories,
+    minPrice,
+    maxPrice,
+    inStock: inStock === 'true',
+    sort
+  };
+}
+
+/**
+ * 解析价格参数，未提供时返回null，无效时返回NaN
+ */
+function parsePriceParam(value: string | null): number | null {
+  if (value === null || value.trim() === '') {
+    return null;
+  }
+  const price = Number(value);
+  return isFinite(price) && price >= 0 ? price : NaN;
+}
+
 /**
  * 获取商品分类列表
  */
 async function getProductCategories(env: Env): Promise<Response> {
   try {
-    const data = await callFeishuBitableApi(env, 'GET', `/tables/${env.FEISHU_STOCK_TABLE_ID}/fields`);
+    // 优先从D1镜像读取，镜像为空时回退到飞书
+    const syncedAt = await getCatalogSyncedAt(env);
+    const categories = syncedAt !== null
+      ? await getCatalogCategories(env)
+      : await fetchCategoriesFromFeishu(env);
     
-    // 查找"类型"字段
-    const typeField = data.items?.find((field: any) => field.field_name === '类型');
-    
-    if (!typeField || !typeField.property?.options) {
-      return new Response(JSON.stringify({
-        success: true,
-        categories: []
-      }), {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
-    
-    const categories = typeField.property.options.map((option: any) => ({
-      id: option.id,
-      name: option.name,
-      color: option.color
-    }));
-    
-    return new Response(JSON.stringify({
+    return jsonResponse({
       success: true,
-      categories: categories
-    }), {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' },
+      categories: categories,
+      syncedAt
     });
   } catch (error) {
     console.error('Get product categories error:', error);
-    return new Response(JSON.stringify({ error: '获取商品分类失败' }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    return errorResponse('CATEGORY_LIST_FAILED');
   }
 }
 
@@ -105,54 +192,46 @@ async function getProductCategories(env: Env): Promise<Response> {
  */
 async function getProductById(productId: string, env: Env): Promise<Response> {
   try {
-    const data = await callFeishuBitableApi(env, 'GET', `/tables/${env.FEISHU_STOCK_TABLE_ID}/records/${productId}`);
-    
-    const item = data.record;
-    const fields = item.fields;
-    const imageUrl = fields['商品图片'] && fields['商品图片'][0] ? fields['商品图片'][0].url : '';
-
-    const product = {
-      id: item.record_id,
-      name: fields['商品名称'] && fields['商品名称'][0] ? fields['商品名称'][0].text : 'Unnamed Product',
-      price: fields['商品单价'] || 0,
-      stock: fields['库存剩余'] || 0,
-      image: imageUrl,
-      description: fields['商品描述']?.[0]?.text || '',
-      type: fields['类型'] || '',
-      unit: fields['单位'] || ''
-    };
+    // 优先从D1镜像读取，镜像中不存在时（尚未同步的新商品）回退到飞书
+    const syncedAt = await getCatalogSyncedAt(env);
+    let product = syncedAt !== null ? await getCatalogProduct(env, productId) : null;
+    const fromCatalog = product !== null;
+    if (!product) {
+      const data = await callFeishuBitableApi(env, 'GET', `/tables/${env.FEISHU_STOCK_TABLE_ID}/records/${productId}`);
+      product = formatProductRecord(data.record, getVariantConfig(env));
+    }
+
+    // 父商品返回全部规格，规格本身按独立商品返回
+    if (product.parentId === null) {
+      [product] = await withVariants(env, [product], fromCatalog);
+    } else {
+      [product] = await withAvailableStock(env, [product]);
+    }
 
-    return new Response(JSON.stringify({
+    return jsonResponse({
       success: true,
-      product
-    }), {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' },
+      product,
+      syncedAt
     });
-  } catch (error: any) {
-    if (error.message.includes('code: 254404')) { // RecordIdNotFound
-        return new Response(JSON.stringify({ error: '商品不存在' }), {
-           status: 404,
-           headers: { 'Content-Type': 'application/json' },
-       });
-   }
+  } catch (error) {
+    if (isFeishuError(error, 'not_found')) {
+      return errorResponse('PRODUCT_NOT_FOUND');
+    }
     console.error('Get product by id error:', error);
-    return new Response(JSON.stringify({ error: '获取商品详情失败' }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    return errorResponse('PRODUCT_FETCH_FAILED');
   }
 }
 
 /**
  * 从飞书多维表格获取商品数据
+ * 价格和库存按父商品自身字段筛选、排序，仅在D1镜像未同步时使用
  */
-async function fetchProductsFromFeishu(env: Env, pageToken?: string, pageSize?: number, searchTerm?: string, category?: string): Promise<{ products: any[], hasMore: boolean, nextPageToken: string }> {
+async function fetchProductsFromFeishu(env: Env, pageToken: string, pageSize: number, query: ProductQuery): Promise<{ products: Product[], hasMore: boolean, nextPageToken: string }> {
+  const config = getVariantConfig(env);
+
   // 构建查询参数
   const queryParams = new URLSearchParams();
-  if (pageSize) {
-    queryParams.append('page_size', pageSize.toString());
-  }
+  queryParams.append('page_size', pageSize.toString());
   if (pageToken) {
     queryParams.append('page_token', pageToken);
   }
@@ -160,57 +239,96 @@ async function fetchProductsFromFeishu(env: Env, pageToken?: string, pageSize?:
   // 构建请求体
   const body: {
     filter?: any;
+    sort?: { field_name: string; desc: boolean }[];
     field_names?: string[];
   } = {
-    field_names: ["商品名称", "类型", "商品图片", "商品单价", "库存剩余", "单位", "商品描述"]
+    field_names: getProductFieldNames(config)
   };
 
-  // 构建筛选条件
+  // 构建筛选条件，"或"条件放入子条件组
   const conditions: any[] = [];
-  
-  if (searchTerm) {
+  const children: any[] = [];
+
+  // 规格随父商品返回，不单独分页
+  if (config.parentField) {
     conditions.push({
-      field_name: "商品名称",
-      operator: "contains",
-      value: [searchTerm]
+      field_name: config.parentField,
+      operator: "isEmpty",
+      value: []
+    });
+  }
+  
+  if (query.searchTerm) {
+    children.push({
+      conjunction: "or",
+      conditions: ['商品名称', '商品描述'].map(field_name => ({
+        field_name,
+        operator: "contains",
+        value: [query.searchTerm]
+      }))
     });
   }
   
-  if (category) {
+  if (query.categories.length === 1) {
     conditions.push({
       field_name: "类型",
       operator: "is",
-      value: [category]
+      value: [query.categories[0]]
+    });
+  } else if (query.categories.length > 1) {
+    children.push({
+      conjunction: "or",
+      conditions: query.categories.map(category => ({
+        field_name: "类型",
+        operator: "is",
+        value: [category]
+      }))
+    });
+  }
+
+  if (query.minPrice !== null) {
+    conditions.push({
+      field_name: "商品单价",
+      operator: "isGreaterEqual",
+      value: [String(query.minPrice)]
+    });
+  }
+
+  if (query.maxPrice !== null) {
+    conditions.push({
+      field_name: "商品单价",
+      operator: "isLessEqual",
+      value: [String(query.maxPrice)]
+    });
+  }
+
+  if (query.inStock) {
+    conditions.push({
+      field_name: "库存剩余",
+      operator: "isGreater",
+      value: ["0"]
     });
   }
   
-  if (conditions.length > 0) {
+  if (conditions.length > 0 || children.length > 0) {
     body.filter = {
       conjunction: "and",
-      conditions: conditions
+      conditions: conditions,
+      ...(children.length > 0 ? { children } : {})
     };
   }
 
+  const sortField = query.sort ? FEISHU_SORT_FIELDS[query.sort] : undefined;
+  if (sortField) {
+    body.sort = [sortField];
+  }
+
   // 构建完整的API路径
   const apiPath = `/tables/${env.FEISHU_STOCK_TABLE_ID}/records/search?${queryParams.toString()}`;
   const data = await callFeishuBitableApi(env, 'POST', apiPath, body);
 
   // 将飞书返回的原始数据格式化为我们需要的商品数据格式
-  const products = data.items.map((item: any) => {
-    const fields = item.fields;
-    const imageUrl = fields['商品图片'] && fields['商品图片'][0] ? `/api/image_proxy?file_token=${fields['商品图片'][0].file_token}` : '';
-
-    return {
-      id: item.record_id,
-      name: fields['商品名称'] && fields['商品名称'][0] ? fields['商品名称'][0].text : 'Unnamed Product',
-      price: fields['商品单价'] || 0,
-      stock: fields['库存剩余'] || 0,
-      image: imageUrl,
-      description: fields['商品描述'] && fields['商品描述'][0] ? fields['商品描述'][0].text : '',
-      type: fields['类型'] || '',
-      unit: fields['单位'] || ''
-    };
-  });
+  const products = (data.items || []).map((item: any) => formatProductRecord(item, config));
 
   return {
       products,
@@ -219,12 +337,81 @@ async function fetchProductsFromFeishu(env: Env, pageToken?: string, pageSize?:
   };
 }
 
-export async function handleImageProxy(request: Request, env: Env): Promise<Response> {
+/**
+ * 按ID批量获取商品，直接读取飞书以获得最新价格和库存
+ * 已删除的商品不会出现在结果中
+ */
+export async function fetchProductsByIds(env: Env, productIds: string[]): Promise<Map<string, Product>> {
+  const config = getVariantConfig(env);
+  const records = await batchGetBitableRecords(env, env.FEISHU_STOCK_TABLE_ID, [...new Set(productIds)]);
+  return new Map(records.map(record => [record.record_id, formatProductRecord(record, config)]));
+}
+
+/**
+ * 为商品补充规格，商品和规格的库存均扣除有效预留
+ * @param fromCatalog 商品是否来自D1镜像，是则同样从镜像读取规格
+ */
+async function withVariants(env: Env, products: Product[], fromCatalog: boolean): Promise<GroupedProduct[]> {
+  const config = getVariantConfig(env);
+  const parentIds = products.map(product => product.id);
+
+  let variants: Product[] = [];
+  if (config.parentField && parentIds.length > 0) {
+    variants = fromCatalog
+      ? await getCatalogVariants(env, parentIds)
+      : await fetchVariantsFromFeishu(env, config, parentIds);
+  }
+
+  const available = await withAvailableStock(env, [...products, ...variants]);
+  return groupVariants(available.slice(0, products.length), available.slice(products.length), config);
+}
+
+/**
+ * 从飞书获取指定父商品的规格
+ * 飞书无法按关联记录ID筛选，因此读取全部规格后过滤，仅在D1镜像未同步时使用
+ */
+async function fetchVariantsFromFeishu(env: Env, config: VariantConfig, parentIds: string[]): Promise<Product[]> {
+  const items = await searchAllBitableRecords(env, env.FEISHU_STOCK_TABLE_ID, {
+    field_names: getProductFieldNames(config),
+    filter: {
+      conjunction: 'and',
+      conditions: [
+        {
+          field_name: config.parentField,
+          operator: 'isNotEmpty',
+          value: []
+        }
+      ]
+    }
+  });
+
+  const parents = new Set(parentIds);
+  return items
+    .map(item => formatProductRecord(item, config))
+    .filter(variant => variant.parentId !== null && parents.has(variant.parentId));
+}
+
+/**
+ * 可用库存需扣除有效预留
+ */
+export async function withAvailableStock(env: Env, products: Product[]): Promise<Product[]> {
+  const reserved = await getReservedQuantities(env, products.map(product => product.id));
+
+  return products.map(product => ({
+    ...product,
+    stock: Math.max(0, product.stock - (reserved.get(product.id) || 0))
+  }));
+}
+
+/**
+ * 图片代理，缓存飞书附件24小时
+ */
+async function handleImageProxy(request: Request, env: Env): Promise<Response> {
   const url = new URL(request.url);
   const fileToken = url.searchParams.get('file_token');
 
   if (!fileToken) {
-    return new Response('Missing file_token', { status: 400 });
+    return errorResponse('FILE_TOKEN_REQUIRED');
   }
 
   const cache = (caches as any).default;
@@ -261,28 +448,6 @@ export async function handleImageProxy(request: Request, env: Env): Promise<Resp
     return response;
   } catch (error) {
     console.error('Image proxy error:', error);
-    return new Response('Failed to fetch image', { status: 500 });
+    return errorResponse('IMAGE_FETCH_FAILED');
   }
 }
-
-/**
- * 获取飞书 tenant_access_token
- */
-async function getFeishuAccessToken(env: Env): Promise<string> {
-  const response = await fetch('https://open.feishu.cn/open-apis/auth/v3/tenant_access_token/internal', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json; charset=utf-8'
-    },
-    body: JSON.stringify({
-      app_id: env.FEISHU_APP_ID,
-      app_secret: env.FEISHU_APP_SECRET
-    })
-  });
-
-  const data = await response.json();
-  if (data.code !== 0) {
-    throw new Error(`Failed to get tenant_access_token: ${data.msg}`);
-  }
-  return data.tenant_access_token;
-}
\ No newline at end of file
@@ -1,53 +1,79 @@
 /**
  * 用户管理模块
- * 处理用户信息和收货地址管理
+ * 处理用户信息、收货地址和收藏管理
  */
 
 import type { Env } from './index';
-import { requireAuth } from './auth';
+import { authenticate, getPasswordHashIterations, type AuthUser } from './auth';
+import { hashPassword, verifyPassword } from './utils/crypto';
+import { validatePassword } from './utils/validation';
+import { createSession, revokeUserSessions } from './utils/session';
+import { fetchProductsByIds, withAvailableStock } from './products';
+import type { Router } from './utils/router';
+import { errorResponse, jsonResponse } from './utils/response';
+import * as s from './utils/schema';
 
 /**
- * 处理用户相关请求
+ * 每个用户最多收藏的商品数
  */
-export async function handleUser(request: Request, env: Env, path: string): Promise<Response> {
-  const method = request.method;
-
-  // 验证用户身份
-  const user = await requireAuth(request, env);
-  if (!user) {
-    return new Response(JSON.stringify({ error: '未授权访问' }), {
-      status: 401,
-      headers: { 'Content-Type': 'application/json' },
-    });
-  }
-
-  if (path === '/api/user/profile' && method === 'GET') {
-    return await getUserProfile(user.userId, env);
-  }
+const MAX_FAVORITES = 200;
 
-  if (path === '/api/user/profile' && method === 'PUT') {
-    return await updateUserProfile(request, user.userId, env);
-  }
+/**
+ * 更新用户信息请求体
+ */
+const profileSchema = s.object({
+  notes: s.optional(s.string())
+});
 
-  if (path === '/api/user/addresses' && method === 'GET') {
-    return await getUserAddresses(user.userId, env);
-  }
+/**
+ * 修改密码请求体
+ */
+const passwordSchema = s.object({
+  currentPassword: s.string({ min: 1 }),
+  newPassword: s.string({ min: 1 })
+});
 
-  if (path === '/api/user/addresses' && method === 'POST') {
-    return await createAddress(request, user.userId, env);
-  }
+/**
+ * 收货地址请求体，添加和更新共用
+ */
+const addressSchema = s.object({
+  recipient_name: s.string({ trim: true, min: 1 }),
+  phone: s.string({ trim: true, min: 1 }),
+  address: s.string({ trim: true, min: 1 }),
+  is_default: s.optional(s.boolean())
+});
 
-  if (path.match(/^\/api\/user\/addresses\/\d+$/) && method === 'PUT') {
-    const addressId = parseInt(path.split('/').pop()!);
-    return await updateAddress(request, user.userId, addressId, env);
-  }
+/**
+ * 收藏商品请求体
+ */
+const favoriteSchema = s.object({
+  productId: s.string({ min: 1, pattern: /^[\w-]+$/ })
+});
 
-  if (path.match(/^\/api\/user\/addresses\/\d+$/) && method === 'DELETE') {
-    const addressId = parseInt(path.split('/').pop()!);
-    return await deleteAddress(user.userId, addressId, env);
-  }
+type ProfilePayload = s.Infer<typeof profileSchema>;
+type PasswordPayload = s.Infer<typeof passwordSchema>;
+type AddressPayload = s.Infer<typeof addressSchema>;
+type FavoritePayload = s.Infer<typeof favoriteSchema>;
 
-  return new Response('User endpoint not found', { status: 404 });
+/**
+ * 注册用户相关路由
+ */
+export function registerUserRoutes(router: Router): void {
+  const auth = authenticate();
+
+  router.get('/api/user/profile', [auth], ({ env, user }) => getUserProfile(user.userId, env));
+  router.put('/api/user/profile', [auth, s.jsonBody(profileSchema)], ({ env, user, body }) => updateUserProfile(body, user.userId, env));
+  router.put('/api/user/password', [auth, s.jsonBody(passwordSchema)], ({ env, user, body }) => changePassword(body, user, env));
+
+  router.get('/api/user/addresses', [auth], ({ env, user }) => getUserAddresses(user.userId, env));
+  router.post('/api/user/addresses', [auth, s.jsonBody(addressSchema)], ({ env, user, body }) => createAddress(body, user.userId, env));
+  router.put('/api/user/addresses/:id(\\d+)', [auth, s.jsonBody(addressSchema)], ({ env, user, params, body }) =>
+    updateAddress(body, user.userId, parseInt(params.id, 10), env));
+  router.delete('/api/user/addresses/:id(\\d+)', [auth], ({ env, user, params }) => deleteAddress(user.userId, parseInt(params.id, 10), env));
+
+  router.get('/api/user/favorites', [auth], ({ env, user }) => getFavorites(user.userId, env));
+  router.post('/api/user/favorites', [auth, s.jsonBody(favoriteSchema)], ({ env, user, body }) => addFavorite(body, user.userId, env));
+  router.delete('/api/user/favorites/:productId', [auth], ({ env, user, params }) => removeFavorite(user.userId, params.productId, env));
 }
 
 /**
@@ -56,43 +82,35 @@ export async function handleUser(request: Request, env: Env, path: string): Prom
 async function getUserProfile(userId: number, env: Env): Promise<Response> {
   try {
     const user = await env.DB.prepare(
-      'SELECT id, username, notes, created_at FROM users WHERE id = ?'
+      'SELECT id, username, notes, role, created_at FROM users WHERE id = ?'
     ).bind(userId).first();
 
     if (!user) {
-      return new Response(JSON.stringify({ error: '用户不存在' }), {
-        status: 404,
-        headers: { 'Content-Type': 'application/json' },
-      });
+      return errorResponse('USER_NOT_FOUND');
     }
 
-    return new Response(JSON.stringify({
+    return jsonResponse({
       success: true,
       user: {
         id: user.id,
         username: user.username,
+        role: user.role,
         notes: user.notes,
         createdAt: user.created_at
       }
-    }), {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' },
     });
   } catch (error) {
     console.error('Get user profile error:', error);
-    return new Response(JSON.stringify({ error: '获取用户信息失败' }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    return errorResponse('PROFILE_FETCH_FAILED');
   }
 }
 
 /**
  * 更新用户信息
  */
-async function updateUserProfile(request: Request, userId: number, env: Env): Promise<Response> {
+async function updateUserProfile(body: ProfilePayload, userId: number, env: Env): Promise<Response> {
   try {
-    const { notes } = await request.json();
+    const { notes } = body;
 
     const result = await env.DB.prepare(
       'UPDATE users SET notes = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?'
@@ -102,19 +120,53 @@ async function updateUserProfile(request: Request, userId: number, env: Env): Pr
       throw new Error('Failed to update user profile');
     }
 
-    return new Response(JSON.stringify({
+    return jsonResponse({
       success: true,
       message: '用户信息更新成功'
-    }), {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' },
     });
   } catch (error) {
     console.error('Update user profile error:', error);
-    return new Response(JSON.stringify({ error: '更新用户信息失败' }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' },
+    return errorResponse('PROFILE_UPDATE_FAILED');
+  }
+}
+
+/**
+ * 修改密码
+ * 需要验证当前密码，修改后吊销所有会话并为当前设备签发新会话
+ */
+async function changePassword(body: PasswordPayload, user: AuthUser, env: Env): Promise<Response> {
+  try {
+    const { currentPassword, newPassword } = body;
+
+    const existingUser = await env.DB.prepare(
+      'SELECT password_hash FROM users WHERE id = ?'
+    ).bind(user.userId).first();
+
+    if (!existingUser || !(await verifyPassword(currentPassword, existingUser.password_hash as string))) {
+      return errorResponse('WRONG_PASSWORD');
+    }
+
+    const passwordError = currentPassword === newPassword ? 'PASSWORD_UNCHANGED' : validatePassword(newPassword);
+    if (passwordError) {
+      return errorResponse(passwordError);
+    }
+
+    await env.DB.prepare(
+      'UPDATE users SET password_hash = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?'
+    ).bind(await hashPassword(newPassword, getPasswordHashIterations(env)), user.userId).run();
+
+    // 使其他设备上的会话失效
+    await revokeUserSessions(env, user.userId);
+    const session = await createSession(env, user);
+
+    return jsonResponse({
+      success: true,
+      message: '密码修改成功',
+      ...session
     });
+  } catch (error) {
+    console.error('Change password error:', error);
+    return errorResponse('PASSWORD_CHANGE_FAILED');
   }
 }
 
@@ -127,36 +179,22 @@ async function getUserAddresses(userId: number, env: Env): Promise<Response> {
       'SELECT id, recipient_name, phone, address, is_default, created_at FROM addresses WHERE user_id = ? ORDER BY is_default DESC, created_at DESC'
     ).bind(userId).all();
 
-    return new Response(JSON.stringify({
+    return jsonResponse({
       success: true,
       addresses: addresses.results
-    }), {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' },
     });
   } catch (error) {
     console.error('Get user addresses error:', error);
-    return new Response(JSON.stringify({ error: '获取收货地址失败' }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    return errorResponse('ADDRESS_LIST_FAILED');
   }
 }
 
 /**
  * 创建收货地址
  */
-async function createAddress(request: Request, userId: number, env: Env): Promise<Response> {
+async function createAddress(body: AddressPayload, userId: number, env: Env): Promise<Response> {
   try {
-    const { recipient_name, phone, address, is_default } = await request.json();
-
-    // 验证输入
-    if (!recipient_name || !phone || !address) {
-      return new Response(JSON.stringify({ error: '收件人姓名、手机号和地址不能为空' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
+    const { recipient_name, phone, address, is_default } = body;
 
     const batch = [];
 
@@ -189,29 +227,23 @@ async function createAddress(request: Request, userId: number, env: Env): Promis
       throw new Error('Failed to create address');
     }
 
-    return new Response(JSON.stringify({
+    return jsonResponse({
       success: true,
       message: '收货地址添加成功',
       addressId: lastResult.meta.last_row_id
-    }), {
-      status: 201,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    }, 201);
   } catch (error) {
     console.error('Create address error:', error);
-    return new Response(JSON.stringify({ error: '添加收货地址失败' }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    return errorResponse('ADDRESS_CREATE_FAILED');
   }
 }
 
 /**
  * 更新收货地址
  */
-async function updateAddress(request: Request, userId: number, addressId: number, env: Env): Promise<Response> {
+async function updateAddress(body: AddressPayload, userId: number, addressId: number, env: Env): Promise<Response> {
   try {
-    const { recipient_name, phone, address, is_default } = await request.json();
+    const { recipient_name, phone, address, is_default } = body;
 
     // 验证地址是否属于当前用户
     const existingAddress = await env.DB.prepare(
@@ -219,10 +251,7 @@ async function updateAddress(request: Request, userId: number, addressId: number
     ).bind(addressId, userId).first();
 
     if (!existingAddress) {
-      return new Response(JSON.stringify({ error: '地址不存在或无权限' }), {
-        status: 404,
-        headers: { 'Content-Type': 'application/json' },
-      });
+      return errorResponse('ADDRESS_NOT_FOUND');
     }
 
     // 检查用户是否只有一个地址
@@ -233,10 +262,7 @@ async function updateAddress(request: Request, userId: number, addressId: number
     let newAddressIsDefault = is_default;
     if (count === 1 && !is_default) {
       // 如果是唯一地址，则不允许取消默认
-      return new Response(JSON.stringify({ error: '无法取消唯一地址的默认设置' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
+      return errorResponse('DEFAULT_ADDRESS_REQUIRED');
     } 
 
     const batch = [];
@@ -255,19 +281,13 @@ async function updateAddress(request: Request, userId: number, addressId: number
 
     await env.DB.batch(batch);
 
-    return new Response(JSON.stringify({
+    return jsonResponse({
       success: true,
       message: '收货地址更新成功'
-    }), {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' },
     });
   } catch (error) {
     console.error('Update address error:', error);
-    return new Response(JSON.stringify({ error: '更新收货地址失败' }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    return errorResponse('ADDRESS_UPDATE_FAILED');
   }
 }
 
@@ -282,10 +302,7 @@ async function deleteAddress(userId: number, addressId: number, env: Env): Promi
     ).bind(addressId, userId).first();
 
     if (!addressToDelete) {
-      return new Response(JSON.stringify({ error: '地址不存在或无权限' }), {
-        status: 404,
-        headers: { 'Content-Type': 'application/json' },
-      });
+      return errorResponse('ADDRESS_NOT_FOUND');
     }
 
     const wasDefault = addressToDelete.is_default;
@@ -296,10 +313,7 @@ async function deleteAddress(userId: number, addressId: number, env: Env): Promi
 
     if (!deleteResult.success || deleteResult.meta.changes === 0) {
         // This case should technically be caught by the check above, but for safety:
-      return new Response(JSON.stringify({ error: '地址不存在或无权限' }), {
-        status: 404,
-        headers: { 'Content-Type': 'application/json' },
-      });
+      return errorResponse('ADDRESS_NOT_FOUND');
     }
 
     // 如果删除的是默认地址，则需要设置新的默认地址
@@ -316,18 +330,97 @@ async function deleteAddress(userId: number, addressId: number, env: Env): Promi
       }
     }
 
-    return new Response(JSON.stringify({
+    return jsonResponse({
       success: true,
       message: '收货地址删除成功'
-    }), {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' },
     });
   } catch (error) {
     console.error('Delete address error:', error);
-    return new Response(JSON.stringify({ error: '删除收货地址失败' }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' },
+    return errorResponse('ADDRESS_DELETE_FAILED');
+  }
+}
+
+/**
+ * 获取收藏列表
+ * 从飞书读取最新的商品信息，已从库存表删除的商品自动移出收藏
+ */
+async function getFavorites(userId: number, env: Env): Promise<Response> {
+  try {
+    const favorites = await env.DB.prepare(
+      'SELECT product_id FROM favorites WHERE user_id = ? ORDER BY created_at DESC, product_id'
+    ).bind(userId).all();
+    const productIds: string[] = (favorites.results || []).map((row: any) => row.product_id);
+
+    const products = await fetchProductsByIds(env, productIds);
+
+    const deletedIds = productIds.filter(id => !products.has(id));
+    if (deletedIds.length > 0) {
+      await env.DB.batch(deletedIds.map(id => env.DB.prepare(
+        'DELETE FROM favorites WHERE user_id = ? AND product_id = ?'
+      ).bind(userId, id)));
+    }
+
+    const favoriteProducts = await withAvailableStock(env, productIds.filter(id => products.has(id)).map(id => products.get(id)!));
+
+    return jsonResponse({
+      success: true,
+      products: favoriteProducts
     });
+  } catch (error) {
+    console.error('Get favorites error:', error);
+    return errorResponse('FAVORITES_FETCH_FAILED');
   }
-}
\ No newline at end of file
+}
+
+/**
+ * 收藏商品
+ */
+async function addFavorite(body: FavoritePayload, userId: number, env: Env): Promise<Response> {
+  try {
+    const { productId } = body;
+
+    const count = await env.DB.prepare(
+      'SELECT COUNT(*) as count FROM favorites WHERE user_id = ?'
+    ).bind(userId).first();
+
+    if (count.count >= MAX_FAVORITES) {
+      return errorResponse('FAVORITES_LIMIT', { max: MAX_FAVORITES });
+    }
+
+    const products = await fetchProductsByIds(env, [productId]);
+    if (!products.has(productId)) {
+      return errorResponse('PRODUCT_NOT_FOUND', { productId });
+    }
+
+    await env.DB.prepare(
+      'INSERT OR IGNORE INTO favorites (user_id, product_id) VALUES (?, ?)'
+    ).bind(userId, productId).run();
+
+    return jsonResponse({
+      success: true,
+      message: '已收藏'
+    }, 201);
+  } catch (error) {
+    console.error('Add favorite error:', error);
+    return errorResponse('FAVORITE_ADD_FAILED');
+  }
+}
+
+/**
+ * 取消收藏
+ */
+async function removeFavorite(userId: number, productId: string, env: Env): Promise<Response> {
+  try {
+    await env.DB.prepare(
+      'DELETE FROM favorites WHERE user_id = ? AND product_id = ?'
+    ).bind(userId, productId).run();
+
+    return jsonResponse({
+      success: true,
+      message: '已取消收藏'
+    });
+  } catch (error) {
+    console.error('Remove favorite error:', error);
+    return errorResponse('FAVORITE_REMOVE_FAILED');
+  }
+}
@@ -11,12 +11,30 @@ declare global {
     }
 }
 
+/**
+ * 接口错误，code 为服务端返回的错误码（如 INSUFFICIENT_STOCK），网络异常等非接口错误时为null
+ */
+class ApiError extends Error {
+    constructor(message: string, readonly code: string | null, readonly status: number, readonly details: any = null) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+/**
+ * 根据错误响应体生成接口错误，响应体格式为 { error: { code, message, details } }
+ */
+function toApiError(data: any, status: number, fallbackMessage: string): ApiError {
+    return new ApiError(data.error?.message || fallbackMessage, data.error?.code || null, status, data.error?.details || null);
+}
+
 /**
  * 清除所有本地存储的用户数据
  */
 function clearUserData(): void {
     // 清除localStorage中的数据
     localStorage.removeItem('authToken');
+    localStorage.removeItem('refreshToken');
     localStorage.removeItem('cart');
     
     // 清除sessionStorage中的商品数据
@@ -44,35 +62,84 @@ function handle401Error(): void {
     }, 1000);
 }
 
+/**
+ * 进行中的令牌刷新请求，并发的401请求共享同一次刷新
+ */
+let refreshPromise: Promise<boolean> | null = null;
+
+/**
+ * 使用刷新令牌换取新的访问令牌
+ * @returns 是否刷新成功
+ */
+function refreshAccessToken(): Promise<boolean> {
+    const refreshToken = localStorage.getItem('refreshToken');
+    if (!refreshToken) {
+        return Promise.resolve(false);
+    }
+
+    if (!refreshPromise) {
+        refreshPromise = (async () => {
+            try {
+                const response = await fetch('/api/auth/refresh', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ refreshToken })
+                });
+                if (!response.ok) {
+                    return false;
+                }
+
+                const data = await response.json();
+                localStorage.setItem('authToken', data.token);
+                localStorage.setItem('refreshToken', data.refreshToken);
+                return true;
+            } catch (error) {
+                console.error('Refresh token error:', error);
+                return false;
+            } finally {
+                refreshPromise = null;
+            }
+        })();
+    }
+
+    return refreshPromise;
+}
+
 /**
  * 全局API调用函数
  * @param endpoint - API端点
  * @param options - fetch选项
+ * @param retried - 是否为刷新令牌后的重试请求
  * @returns API响应数据
  */
-async function globalApiCall(endpoint: string, options: RequestInit = {}): Promise<any> {
+async function globalApiCall(endpoint: string, options: RequestInit = {}, retried: boolean = false): Promise<any> {
     const authToken = localStorage.getItem('authToken');
     const config: RequestInit = {
+        ...options,
+        // 合并调用方传入的请求头，避免覆盖认证信息
         headers: {
             'Content-Type': 'application/json',
-            ...(authToken && { 'Authorization': `Bearer ${authToken}` })
-        },
-        ...options
+            ...(authToken && { 'Authorization': `Bearer ${authToken}` }),
+            ...(options.headers as Record<string, string> | undefined)
+        }
     };
 
     try {
         const response = await fetch(`/api${endpoint}`, config);
         
-        // 检查401未授权状态
+        // 检查401未授权状态，先尝试静默刷新令牌后重试一次
         if (response.status === 401) {
+            if (!retried && await refreshAccessToken()) {
+                return await globalApiCall(endpoint, options, true);
+            }
             handle401Error();
-            throw new Error('未授权访问');
+            throw new ApiError('未授权访问', 'UNAUTHORIZED', 401);
         }
         
         const data = await response.json().catch(() => ({}));
         
         if (!response.ok) {
-            throw new Error(data.error || `API请求失败，状态码: ${response.status}`);
+            throw toApiError(data, response.status, `API请求失败，状态码: ${response.status}`);
         }
         
         return data;
@@ -80,7 +147,7 @@ async function globalApiCall(endpoint: string, options: RequestInit = {}): Promi
         console.error('API Error:', error);
         
         // 如果是网络错误或其他错误，也检查是否可能是认证问题
-        if (error.message.includes('401') || error.message.includes('未授权')) {
+        if (error.code === 'UNAUTHORIZED' || error.message.includes('401')) {
             handle401Error();
         }
         
@@ -88,6 +155,38 @@ async function globalApiCall(endpoint: string, options: RequestInit = {}): Promi
     }
 }
 
+/**
+ * 下载文件接口的响应，文件名取自 Content-Disposition
+ * 与 globalApiCall 相同地处理令牌刷新和401错误，失败时抛出接口返回的错误信息
+ */
+async function downloadFile(endpoint: string, fallbackName: string, retried: boolean = false): Promise<void> {
+    const authToken = localStorage.getItem('authToken');
+    const response = await fetch(`/api${endpoint}`, {
+        headers: authToken ? { 'Authorization': `Bearer ${authToken}` } : {}
+    });
+
+    if (response.status === 401) {
+        if (!retried && await refreshAccessToken()) {
+            return await downloadFile(endpoint, fallbackName, true);
+        }
+        handle401Error();
+        throw new ApiError('未授权访问', 'UNAUTHORIZED', 401);
+    }
+
+    if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw toApiError(data, response.status, `下载失败，状态码: ${response.status}`);
+    }
+
+    const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || fallbackName;
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
 // 将函数挂载到window对象上
 if (typeof window !== 'undefined') {
     window.globalApiCall = globalApiCall;
@@ -95,7 +194,10 @@ if (typeof window !== 'undefined') {
 
 // 导出函数供其他模块使用
 export {
+    ApiError,
     globalApiCall,
+    downloadFile,
+    refreshAccessToken,
     clearUserData,
     handle401Error
 };
\ No newline at end of file
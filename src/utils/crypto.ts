@@ -4,33 +4,165 @@
  */
 
 /**
- * 生成密码哈希
+ * 计算SHA-256摘要（十六进制）
  */
-export async function hashPassword(password: string): Promise<string> {
+export async function sha256Hex(input: string): Promise<string> {
   const encoder = new TextEncoder();
-  const data = encoder.encode(password);
+  const data = encoder.encode(input);
   const hashBuffer = await crypto.subtle.digest('SHA-256', data);
   const hashArray = Array.from(new Uint8Array(hashBuffer));
   const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
   return hashHex;
 }
 
+/**
+ * 密码哈希算法标识
+ */
+const PASSWORD_HASH_ALGORITHM = 'pbkdf2-sha256';
+
+/**
+ * 默认迭代次数（Workers 的 PBKDF2 最多支持100000次）
+ */
+export const DEFAULT_PASSWORD_HASH_ITERATIONS = 100000;
+
+/**
+ * Workers 的 PBKDF2 支持的最大迭代次数
+ */
+export const MAX_PASSWORD_HASH_ITERATIONS = 100000;
+
+/**
+ * 盐和派生密钥的字节长度
+ */
+const SALT_LENGTH = 16;
+const DERIVED_KEY_LENGTH = 32;
+
+/**
+ * 生成密码哈希
+ * 使用随机盐的 PBKDF2-SHA256，格式为 algorithm$iterations$salt$hash（salt/hash 为base64）
+ */
+export async function hashPassword(password: string, iterations: number = DEFAULT_PASSWORD_HASH_ITERATIONS): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const derivedKey = await derivePasswordKey(password, salt, iterations);
+  return [PASSWORD_HASH_ALGORITHM, iterations, bytesToBase64(salt), bytesToBase64(derivedKey)].join('$');
+}
+
+/**
+ * 生成不对应任何密码的哈希
+ * 用户不存在时用它验证密码，耗时与真实验证相同，避免通过响应时间判断用户名是否存在
+ */
+export function dummyPasswordHash(iterations: number = DEFAULT_PASSWORD_HASH_ITERATIONS): string {
+  return [PASSWORD_HASH_ALGORITHM, iterations, bytesToBase64(new Uint8Array(SALT_LENGTH)), bytesToBase64(new Uint8Array(DERIVED_KEY_LENGTH))].join('$');
+}
+
 /**
  * 验证密码
+ * 兼容旧版无盐 SHA-256 哈希，比较过程为常量时间
  */
 export async function verifyPassword(password: string, hash: string): Promise<boolean> {
-  const passwordHash = await hashPassword(password);
-  return passwordHash === hash;
+  const parts = hash.split('$');
+
+  if (parts[0] !== PASSWORD_HASH_ALGORITHM) {
+    // 旧版格式：SHA-256 十六进制摘要
+    const legacyHash = await sha256Hex(password);
+    return timingSafeEqual(new TextEncoder().encode(legacyHash), new TextEncoder().encode(hash));
+  }
+
+  if (parts.length !== 4) {
+    return false;
+  }
+
+  const iterations = parseInt(parts[1], 10);
+  const salt = base64ToBytes(parts[2]);
+  const expected = base64ToBytes(parts[3]);
+  const derivedKey = await derivePasswordKey(password, salt, iterations);
+  return timingSafeEqual(derivedKey, expected);
+}
+
+/**
+ * 判断密码哈希是否需要升级（旧版格式或迭代次数与当前配置不一致）
+ */
+export function needsRehash(hash: string, iterations: number = DEFAULT_PASSWORD_HASH_ITERATIONS): boolean {
+  const parts = hash.split('$');
+  return parts[0] !== PASSWORD_HASH_ALGORITHM || parseInt(parts[1], 10) !== iterations;
+}
+
+/**
+ * 使用 PBKDF2 派生密钥
+ */
+async function derivePasswordKey(password: string, salt: BufferSource, iterations: number): Promise<Uint8Array> {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    keyMaterial,
+    DERIVED_KEY_LENGTH * 8
+  );
+
+  return new Uint8Array(bits);
+}
+
+/**
+ * 常量时间比较，避免通过响应时间推测哈希内容
+ */
+export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+/**
+ * 字节数组转base64
+ */
+function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * base64转字节数组
+ */
+function base64ToBytes(str: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(str), c => c.charCodeAt(0));
+}
+
+/**
+ * 生成安全随机令牌（base64url编码）
+ */
+export function generateSecureToken(byteLength: number = 32): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(byteLength));
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
+}
+
+/**
+ * 由密钥和消息派生令牌（HMAC-SHA256，base64url编码）
+ * 相同输入总是得到相同令牌，不知道密钥时无法预测
+ */
+export async function deriveToken(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return bytesToBase64(new Uint8Array(signature)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
 }
 
 /**
  * 生成随机字符串
  */
-export function generateRandomString(length: number): string {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+export function generateRandomString(length: number, chars: string = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
   let result = '';
   for (let i = 0; i < length; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
+    result += chars.charAt(bytes[i] % chars.length);
   }
   return result;
 }
\ No newline at end of file
@@ -0,0 +1,11 @@
+/**
+ * 时间格式模块
+ * D1 的 CURRENT_TIMESTAMP 为 UTC 时间，格式为 YYYY-MM-DD HH:MM:SS，返回给前端前统一转换为ISO格式
+ */
+
+/**
+ * 将D1时间转换为ISO格式
+ */
+export function fromD1Timestamp(value: string): string {
+  return new Date(`${value.replace(' ', 'T')}Z`).toISOString();
+}
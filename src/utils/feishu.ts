@@ -3,11 +3,124 @@
  */
 import type { Env } from '../index';
 
+/**
+ * 飞书错误分类
+ */
+export type FeishuErrorKind = 'not_found' | 'rate_limited' | 'auth_expired' | 'transient' | 'unknown';
+
+/**
+ * 各分类对应的飞书错误码
+ */
+const NOT_FOUND_CODES = [254404, 1254043];
+const RATE_LIMITED_CODES = [1254290, 99991400];
+const AUTH_EXPIRED_CODES = [99991661, 99991663, 99991668, 99991677];
+const TRANSIENT_CODES = [1254291, 1254607, 1255001, 1255002, 1255040];
+
+/**
+ * 最大尝试次数（含首次请求）
+ */
+const MAX_ATTEMPTS = 4;
+
+/**
+ * 重试退避的基础延迟和上限（毫秒）
+ */
+const RETRY_BASE_DELAY_MS = 200;
+const RETRY_MAX_DELAY_MS = 5000;
+
+/**
+ * 飞书 API 错误
+ */
+export class FeishuApiError extends Error {
+  readonly kind: FeishuErrorKind;
+
+  constructor(
+    readonly code: number,
+    readonly msg: string,
+    readonly status: number,
+    readonly path: string
+  ) {
+    super(`Feishu API request failed: ${msg} (code: ${code})`);
+    this.name = 'FeishuApiError';
+    this.kind = classifyFeishuError(code, status);
+  }
+
+  /**
+   * 是否可以重试
+   */
+  get retryable(): boolean {
+    return this.kind === 'rate_limited' || this.kind === 'transient';
+  }
+}
+
+/**
+ * 根据错误码和HTTP状态对飞书错误分类
+ */
+function classifyFeishuError(code: number, status: number): FeishuErrorKind {
+  if (NOT_FOUND_CODES.includes(code) || status === 404) {
+    return 'not_found';
+  }
+  if (RATE_LIMITED_CODES.includes(code) || status === 429) {
+    return 'rate_limited';
+  }
+  if (AUTH_EXPIRED_CODES.includes(code)) {
+    return 'auth_expired';
+  }
+  if (TRANSIENT_CODES.includes(code) || status >= 500) {
+    return 'transient';
+  }
+  return 'unknown';
+}
+
+/**
+ * 判断是否为指定分类的飞书错误
+ */
+export function isFeishuError(error: unknown, kind: FeishuErrorKind): error is FeishuApiError {
+  return error instanceof FeishuApiError && error.kind === kind;
+}
+
+/**
+ * 令牌提前刷新时间（毫秒），避免使用即将过期的令牌
+ */
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * 当前隔离环境内缓存的 tenant_access_token
+ */
+let cachedToken: { appId: string; token: string; expiresAt: number } | null = null;
+
+/**
+ * 进行中的令牌请求，用于合并并发刷新
+ */
+let pendingTokenRequest: Promise<string> | null = null;
+
+/**
+ * 使缓存的令牌失效，下次调用时重新获取
+ */
+export function invalidateFeishuAccessToken(): void {
+  cachedToken = null;
+}
+
 /**
  * 获取飞书 tenant_access_token
+ * 令牌在过期前缓存复用，并发请求共享同一次刷新
  */
 export async function getFeishuAccessToken(env: Env): Promise<string> {
-  // TODO: Add caching for access token
+  if (cachedToken && cachedToken.appId === env.FEISHU_APP_ID && Date.now() < cachedToken.expiresAt) {
+    return cachedToken.token;
+  }
+
+  if (!pendingTokenRequest) {
+    pendingTokenRequest = requestFeishuAccessToken(env).finally(() => {
+      pendingTokenRequest = null;
+    });
+  }
+  return await pendingTokenRequest;
+}
+
+/**
+ * 向飞书申请新的 tenant_access_token 并写入缓存
+ */
+async function requestFeishuAccessToken(env: Env): Promise<string> {
   const response = await fetch('https://open.feishu.cn/open-apis/auth/v3/tenant_access_token/internal', {
     method: 'POST',
     headers: {
@@ -21,19 +134,123 @@ export async function getFeishuAccessToken(env: Env): Promise<string> {
 
   const data = await response.json();
   if (data.code !== 0) {
-    throw new Error(`Failed to get tenant_access_token: ${data.msg}`);
+    throw new FeishuApiError(data.code, data.msg, response.status, '/auth/v3/tenant_access_token/internal');
   }
+
+  // expire 为令牌剩余有效秒数
+  cachedToken = {
+    appId: env.FEISHU_APP_ID,
+    token: data.tenant_access_token,
+    expiresAt: Date.now() + data.expire * 1000 - TOKEN_REFRESH_MARGIN_MS
+  };
   return data.tenant_access_token;
 }
 
+/**
+ * 只读的 POST 接口和批量更新，重复请求不会产生副作用
+ */
+const IDEMPOTENT_POST_PATTERN = /\/records\/(search|batch_get|batch_update)$/;
+
 /**
  * 调用飞书多维表格 API
+ * 限流错误（请求未被处理）按指数退避自动重试；临时错误和网络错误可能发生在飞书已写入之后，
+ * 只对幂等请求重试，新增记录需在路径中携带 client_token 才会重试。令牌失效时刷新一次令牌
  */
 export async function callFeishuBitableApi(
   env: Env,
   method: 'GET' | 'POST' | 'PUT' | 'DELETE',
   path: string,
   body: any = null
+): Promise<any> {
+  let tokenRefreshed = false;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await requestFeishuBitableApi(env, method, path, body);
+    } catch (error) {
+      if (error instanceof FeishuApiError && error.kind === 'auth_expired' && !tokenRefreshed) {
+        tokenRefreshed = true;
+        invalidateFeishuAccessToken();
+        continue;
+      }
+
+      if (!(error instanceof FeishuApiError && error.retryable) || attempt >= MAX_ATTEMPTS) {
+        throw error;
+      }
+      if (error.kind === 'transient' && !isIdempotentRequest(method, path)) {
+        throw error;
+      }
+
+      console.warn(`Feishu API retry: kind=${error.kind}, code=${error.code}, path=${path}, attempt=${attempt}`);
+      await sleep(getRetryDelay(attempt));
+    }
+  }
+}
+
+/**
+ * 判断请求重复发送是否安全
+ */
+function isIdempotentRequest(method: 'GET' | 'POST' | 'PUT' | 'DELETE', path: string): boolean {
+  if (method !== 'POST') {
+    return true;
+  }
+  const [endpoint, query = ''] = path.split('?');
+  return IDEMPOTENT_POST_PATTERN.test(endpoint) || new URLSearchParams(query).has('client_token');
+}
+
+/**
+ * 逐页查询数据表记录
+ * 依次跟随 page_token 拉取，直到 has_more 为 false；调用方可提前结束遍历，不再请求后续分页
+ */
+export async function* searchBitableRecordPages(env: Env, tableId: string, body: any, pageSize = 500): AsyncGenerator<any[]> {
+  let pageToken = '';
+
+  do {
+    const queryParams = new URLSearchParams({ page_size: pageSize.toString() });
+    if (pageToken) {
+      queryParams.append('page_token', pageToken);
+    }
+
+    const data = await callFeishuBitableApi(env, 'POST', `/tables/${tableId}/records/search?${queryParams.toString()}`, body);
+    yield data.items || [];
+    pageToken = data.has_more ? data.page_token || '' : '';
+  } while (pageToken);
+}
+
+/**
+ * 按记录ID批量获取记录
+ * batch_get 每次最多查询100条记录，超出时分批查询；已删除的记录不会出现在结果中
+ */
+export async function batchGetBitableRecords(env: Env, tableId: string, recordIds: string[]): Promise<any[]> {
+  const records: any[] = [];
+  for (let i = 0; i < recordIds.length; i += 100) {
+    const data = await callFeishuBitableApi(env, 'POST', `/tables/${tableId}/records/batch_get`, {
+      record_ids: recordIds.slice(i, i + 100)
+    });
+    records.push(...(data.records || []));
+  }
+  return records;
+}
+
+/**
+ * 分页查询数据表的全部记录
+ */
+export async function searchAllBitableRecords(env: Env, tableId: string, body: any, pageSize = 500): Promise<any[]> {
+  const records: any[] = [];
+  for await (const items of searchBitableRecordPages(env, tableId, body, pageSize)) {
+    records.push(...items);
+  }
+  return records;
+}
+
+/**
+ * 发起一次飞书多维表格 API 请求
+ */
+async function requestFeishuBitableApi(
+  env: Env,
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+  path: string,
+  body: any
 ): Promise<any> {
   const token = await getFeishuAccessToken(env);
   const url = `https://open.feishu.cn/open-apis/bitable/v1/apps/${env.FEISHU_BASE_APP_TOKEN}${path}`;
@@ -50,13 +267,36 @@ export async function callFeishuBitableApi(
     options.body = JSON.stringify(body);
   }
 
-  const response = await fetch(url, options);
-  const data = await response.json();
+  let response: Response;
+  try {
+    response = await fetch(url, options);
+  } catch (error: any) {
+    // 网络错误按临时错误处理
+    throw new FeishuApiError(-1, error?.message || 'Network error', 503, path);
+  }
+
+  // 网关错误时响应体可能不是JSON
+  const data = await response.json().catch(() => ({ code: -1, msg: response.statusText }));
 
   if (data.code !== 0) {
     console.error(`Feishu API Error: code=${data.code}, msg=${data.msg}, path=${path}, body=${JSON.stringify(body)}`);
-    throw new Error(`Feishu API request failed: ${data.msg} (code: ${data.code})`);
+    throw new FeishuApiError(data.code, data.msg, response.status, path);
   }
 
   return data.data;
+}
+
+/**
+ * 计算带随机抖动的指数退避延迟
+ */
+function getRetryDelay(attempt: number): number {
+  const maxDelay = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+  return Math.floor(maxDelay / 2 + Math.random() * maxDelay / 2);
+}
+
+/**
+ * 等待指定毫秒
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
 }
\ No newline at end of file
@@ -0,0 +1,116 @@
+/**
+ * 幂等键模块
+ * 根据 Idempotency-Key 请求头避免重复提交产生重复数据
+ */
+import type { Env } from '../index';
+import { sha256Hex } from './crypto';
+import { errorResponse } from './response';
+
+/**
+ * 幂等键最大长度
+ */
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * 幂等键保留时间
+ */
+const KEY_RETENTION = '-1 day';
+
+/**
+ * 占用超时时间，超过该时间仍未保存响应的占用视为处理中断（如 Worker 被终止），可由重试请求重新占用
+ */
+const CLAIM_TIMEOUT = '-60 seconds';
+
+/**
+ * 以幂等方式执行请求处理
+ * 相同用户、相同接口（方法和路径）、相同幂等键的重试请求直接重放首次成功的响应；
+ * 同一幂等键携带不同请求体时返回409。未携带请求头时直接执行。
+ */
+export async function withIdempotency(
+  request: Request,
+  env: Env,
+  userId: number,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const key = request.headers.get('Idempotency-Key');
+  if (!key) {
+    return await handler();
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return errorResponse('IDEMPOTENCY_KEY_INVALID');
+  }
+
+  const endpoint = `${request.method} ${new URL(request.url).pathname}`;
+  // 请求体需要留给处理函数读取，因此读取副本
+  const requestHash = await sha256Hex(await request.clone().text());
+  // 占用标识，保证只有当前占用者可以保存响应或释放幂等键
+  const claimId = crypto.randomUUID();
+
+  // 清理过期的幂等键后尝试占用
+  await env.DB.prepare(
+    "DELETE FROM idempotency_keys WHERE user_id = ? AND created_at < datetime('now', ?)"
+  ).bind(userId, KEY_RETENTION).run();
+
+  const claimed = await env.DB.prepare(
+    'INSERT OR IGNORE INTO idempotency_keys (user_id, endpoint, idempotency_key, request_hash, claim_id) VALUES (?, ?, ?, ?, ?)'
+  ).bind(userId, endpoint, key, requestHash, claimId).run();
+
+  if (claimed.meta.changes === 0) {
+    const existing = await env.DB.prepare(
+      'SELECT request_hash, response_status, response_body FROM idempotency_keys WHERE user_id = ? AND endpoint = ? AND idempotency_key = ?'
+    ).bind(userId, endpoint, key).first();
+
+    if (existing && existing.request_hash !== requestHash) {
+      return errorResponse('IDEMPOTENCY_KEY_REUSED');
+    }
+
+    if (existing && existing.response_status !== null) {
+      return new Response(existing.response_body, {
+        status: existing.response_status,
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotent-Replayed': 'true'
+        },
+      });
+    }
+
+    // 处理中的占用超时后重新占用，条件更新保证并发重试中只有一个请求成功
+    const reclaimed = await env.DB.prepare(
+      `UPDATE idempotency_keys SET claim_id = ?, created_at = CURRENT_TIMESTAMP
+       WHERE user_id = ? AND endpoint = ? AND idempotency_key = ? AND response_status IS NULL AND created_at < datetime('now', ?)`
+    ).bind(claimId, userId, endpoint, key, CLAIM_TIMEOUT).run();
+
+    if (reclaimed.meta.changes === 0) {
+      return errorResponse('REQUEST_IN_PROGRESS');
+    }
+  }
+
+  let response: Response;
+  try {
+    response = await handler();
+  } catch (error) {
+    await releaseKey(env, claimId);
+    throw error;
+  }
+
+  // 只保存成功的响应，失败的请求没有产生数据，释放幂等键允许重试
+  if (response.ok) {
+    await env.DB.prepare(
+      'UPDATE idempotency_keys SET response_status = ?, response_body = ? WHERE claim_id = ?'
+    ).bind(response.status, await response.clone().text(), claimId).run();
+  } else {
+    await releaseKey(env, claimId);
+  }
+
+  return response;
+}
+
+/**
+ * 释放幂等键，已被重新占用时不做修改
+ */
+async function releaseKey(env: Env, claimId: string): Promise<void> {
+  await env.DB.prepare(
+    'DELETE FROM idempotency_keys WHERE claim_id = ?'
+  ).bind(claimId).run();
+}
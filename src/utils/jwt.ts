@@ -1,7 +1,8 @@
 /**
  * JWT工具模块
- * 处理JWT令牌的生成和验证
+ * 处理JWT令牌的生成和验证，支持通过 kid 轮换签名密钥
  */
+import type { Env } from '../index';
 
 /**
  * JWT载荷接口
@@ -9,10 +10,53 @@
 interface JWTPayload {
   userId: number;
   username: string;
+  role?: string; // 用户角色
+  sid?: string; // 会话ID（刷新令牌族）
   iat?: number;
+  nbf?: number;
   exp?: number;
 }
 
+/**
+ * 签名密钥
+ */
+export interface JWTKey {
+  kid: string;
+  secret: string;
+}
+
+/**
+ * 未配置 JWT_KEY_ID 时当前密钥的ID
+ */
+const DEFAULT_KEY_ID = 'default';
+
+/**
+ * 校验 exp/nbf 时允许的时钟偏差（秒）
+ */
+const CLOCK_SKEW_LEEWAY = 60;
+
+/**
+ * 读取密钥配置
+ * JWT_SECRET/JWT_KEY_ID 为当前签名密钥；JWT_PREVIOUS_KEYS 为仅用于验证的历史密钥，格式为 kid:secret，多个用逗号分隔
+ * @returns 密钥列表，第一个为当前签名密钥
+ */
+export function getJWTKeys(env: Env): JWTKey[] {
+  const keys: JWTKey[] = [{ kid: env.JWT_KEY_ID || DEFAULT_KEY_ID, secret: env.JWT_SECRET }];
+
+  for (const entry of (env.JWT_PREVIOUS_KEYS || '').split(',')) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) continue;
+
+    const kid = entry.slice(0, separator).trim();
+    const secret = entry.slice(separator + 1).trim();
+    if (kid && secret && !keys.some(key => key.kid === kid)) {
+      keys.push({ kid, secret });
+    }
+  }
+
+  return keys;
+}
+
 /**
  * UTF-8安全的Base64 URL编码
  */
@@ -44,17 +88,18 @@ function base64UrlDecode(str: string): string {
 /**
  * 生成JWT令牌
  */
-export async function generateJWT(payload: Omit<JWTPayload, 'iat' | 'exp'>, secret: string): Promise<string> {
+export async function generateJWT(payload: Omit<JWTPayload, 'iat' | 'nbf' | 'exp'>, key: JWTKey, expiresIn: number = 24 * 60 * 60): Promise<string> {
   const header = {
     alg: 'HS256',
-    typ: 'JWT'
+    typ: 'JWT',
+    kid: key.kid
   };
 
   const now = Math.floor(Date.now() / 1000);
   const fullPayload: JWTPayload = {
     ...payload,
     iat: now,
-    exp: now + (24 * 60 * 60) // 24小时过期
+    exp: now + expiresIn // 默认24小时过期
   };
 
   const encodedHeader = base64UrlEncode(JSON.stringify(header));
@@ -63,10 +108,10 @@ export async function generateJWT(payload: Omit<JWTPayload, 'iat' | 'exp'>, secr
 
   // 生成签名
   const encoder = new TextEncoder();
-  const keyData = encoder.encode(secret);
+  const keyData = encoder.encode(key.secret);
   const algorithm = { name: 'HMAC', hash: 'SHA-256' };
   
-  const key = await crypto.subtle.importKey(
+  const cryptoKey = await crypto.subtle.importKey(
     'raw',
     keyData,
     algorithm,
@@ -76,7 +121,7 @@ export async function generateJWT(payload: Omit<JWTPayload, 'iat' | 'exp'>, secr
 
   const signature = await crypto.subtle.sign(
     algorithm,
-    key,
+    cryptoKey,
     encoder.encode(data)
   );
 
@@ -89,8 +134,10 @@ export async function generateJWT(payload: Omit<JWTPayload, 'iat' | 'exp'>, secr
 
 /**
  * 验证JWT令牌
+ * 按 kid 选择验证密钥（不含 kid 的旧令牌使用当前密钥），只接受 HS256
+ * @param keys 密钥列表，第一个为当前密钥
  */
-export async function verifyJWT(token: string, secret: string): Promise<JWTPayload> {
+export async function verifyJWT(token: string, keys: JWTKey[]): Promise<JWTPayload> {
   const parts = token.split('.');
   if (parts.length !== 3) {
     throw new Error('Invalid JWT format');
@@ -99,12 +146,23 @@ export async function verifyJWT(token: string, secret: string): Promise<JWTPaylo
   const [encodedHeader, encodedPayload, encodedSignature] = parts;
   const data = `${encodedHeader}.${encodedPayload}`;
 
+  // 校验头部，拒绝 none 等其他算法
+  const header = JSON.parse(base64UrlDecode(encodedHeader));
+  if (header.alg !== 'HS256' || (header.typ !== undefined && header.typ !== 'JWT')) {
+    throw new Error('Unsupported JWT algorithm');
+  }
+
+  const key = header.kid === undefined ? keys[0] : keys.find(candidate => candidate.kid === header.kid);
+  if (!key) {
+    throw new Error('Unknown JWT key id');
+  }
+
   // 验证签名
   const encoder = new TextEncoder();
-  const keyData = encoder.encode(secret);
+  const keyData = encoder.encode(key.secret);
   const algorithm = { name: 'HMAC', hash: 'SHA-256' };
   
-  const key = await crypto.subtle.importKey(
+  const cryptoKey = await crypto.subtle.importKey(
     'raw',
     keyData,
     algorithm,
@@ -119,7 +177,7 @@ export async function verifyJWT(token: string, secret: string): Promise<JWTPaylo
 
   const isValid = await crypto.subtle.verify(
     algorithm,
-    key,
+    cryptoKey,
     signature,
     encoder.encode(data)
   );
@@ -131,10 +189,16 @@ export async function verifyJWT(token: string, secret: string): Promise<JWTPaylo
   // 解析载荷
   const payload: JWTPayload = JSON.parse(base64UrlDecode(encodedPayload));
 
-  // 检查过期时间
-  if (payload.exp && payload.exp < Math.floor(Date.now() / 1000)) {
+  const now = Math.floor(Date.now() / 1000);
+
+  // 检查过期时间和生效时间，允许少量时钟偏差
+  if (payload.exp && payload.exp + CLOCK_SKEW_LEEWAY < now) {
     throw new Error('JWT token expired');
   }
 
+  if (payload.nbf && payload.nbf - CLOCK_SKEW_LEEWAY > now) {
+    throw new Error('JWT token not yet valid');
+  }
+
   return payload;
 }
\ No newline at end of file
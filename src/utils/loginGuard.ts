@@ -0,0 +1,120 @@
+/**
+ * 登录防护模块
+ * 按用户名和IP分别统计登录失败次数，逐步增加延迟并在多次失败后临时锁定
+ */
+import type { Env } from '../index';
+
+/**
+ * 默认配置：用户名/IP的最大失败次数、锁定时长（秒）
+ */
+const DEFAULT_MAX_FAILURES = 5;
+const DEFAULT_IP_MAX_FAILURES = 20;
+const DEFAULT_LOCK_SECONDS = 15 * 60;
+
+/**
+ * 失败延迟的基础值和上限（毫秒）
+ */
+const BASE_DELAY_MS = 250;
+const MAX_DELAY_MS = 5000;
+
+/**
+ * 计数维度
+ */
+type AttemptScope = 'username' | 'ip';
+
+/**
+ * 登录锁定状态
+ */
+export interface LoginLockStatus {
+  locked: boolean;
+  retryAfter: number; // 剩余锁定秒数
+  failures: number; // 当前累计失败次数
+}
+
+/**
+ * 读取登录防护配置
+ */
+function getLoginGuardConfig(env: Env): { maxFailures: number; ipMaxFailures: number; lockSeconds: number } {
+  return {
+    maxFailures: parseInt(env.LOGIN_MAX_FAILURES || '', 10) || DEFAULT_MAX_FAILURES,
+    ipMaxFailures: parseInt(env.LOGIN_IP_MAX_FAILURES || '', 10) || DEFAULT_IP_MAX_FAILURES,
+    lockSeconds: parseInt(env.LOGIN_LOCK_SECONDS || '', 10) || DEFAULT_LOCK_SECONDS
+  };
+}
+
+/**
+ * 检查用户名或IP是否处于锁定状态
+ */
+export async function checkLoginLock(env: Env, username: string, ip: string): Promise<LoginLockStatus> {
+  const rows = await env.DB.prepare(
+    `SELECT failures, CAST(MAX(0, strftime('%s', locked_until) - strftime('%s', 'now')) AS INTEGER) as retry_after
+     FROM login_attempts WHERE (scope = 'username' AND identifier = ?) OR (scope = 'ip' AND identifier = ?)`
+  ).bind(username, ip).all();
+
+  let retryAfter = 0;
+  let failures = 0;
+  for (const row of rows.results || []) {
+    retryAfter = Math.max(retryAfter, row.retry_after || 0);
+    failures = Math.max(failures, row.failures);
+  }
+
+  return { locked: retryAfter > 0, retryAfter, failures };
+}
+
+/**
+ * 根据累计失败次数计算渐进延迟（指数增长，有上限）
+ */
+export function getLoginDelay(failures: number): number {
+  return failures > 0 ? Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (failures - 1)) : 0;
+}
+
+/**
+ * 记录一次登录失败，达到阈值时锁定并记录锁定事件
+ * 超过锁定时长未再失败的计数会重新开始
+ */
+export async function recordLoginFailure(env: Env, username: string, ip: string): Promise<LoginLockStatus> {
+  const config = getLoginGuardConfig(env);
+  const targets: { scope: AttemptScope; identifier: string; max: number }[] = [
+    { scope: 'username', identifier: username, max: config.maxFailures },
+    { scope: 'ip', identifier: ip, max: config.ipMaxFailures }
+  ];
+
+  let locked = false;
+  let failures = 0;
+  for (const target of targets) {
+    const row = await env.DB.prepare(
+      `INSERT INTO login_attempts (scope, identifier, failures, updated_at) VALUES (?, ?, 1, CURRENT_TIMESTAMP)
+       ON CONFLICT(scope, identifier) DO UPDATE SET
+         failures = CASE WHEN updated_at < datetime('now', ?) THEN 1 ELSE failures + 1 END,
+         updated_at = CURRENT_TIMESTAMP
+       RETURNING failures`
+    ).bind(target.scope, target.identifier, `-${config.lockSeconds} seconds`).first();
+
+    failures = Math.max(failures, row.failures);
+
+    if (row.failures >= target.max) {
+      locked = true;
+      await env.DB.batch([
+        env.DB.prepare(
+          "UPDATE login_attempts SET failures = 0, locked_until = datetime('now', ?) WHERE scope = ? AND identifier = ?"
+        ).bind(`+${config.lockSeconds} seconds`, target.scope, target.identifier),
+        env.DB.prepare(
+          "INSERT INTO lockout_events (scope, identifier, failures, ip, locked_until) VALUES (?, ?, ?, ?, datetime('now', ?))"
+        ).bind(target.scope, target.identifier, row.failures, ip, `+${config.lockSeconds} seconds`)
+      ]);
+      console.warn(`Login locked: scope=${target.scope}, identifier=${target.identifier}, failures=${row.failures}`);
+    }
+  }
+
+  return { locked, retryAfter: locked ? config.lockSeconds : 0, failures };
+}
+
+/**
+ * 登录成功后重置用户名计数
+ * IP计数不重置，按时间窗口自然过期，避免攻击者穿插登录自己的账户来清空IP限制
+ */
+export async function resetLoginAttempts(env: Env, username: string): Promise<void> {
+  await env.DB.prepare(
+    "DELETE FROM login_attempts WHERE scope = 'username' AND identifier = ?"
+  ).bind(username).run();
+}
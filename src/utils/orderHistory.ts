@@ -0,0 +1,56 @@
+/**
+ * 订单状态历史模块
+ * 在D1中记录订单状态的每次变化，用于生成订单时间线
+ */
+import type { Env } from '../index';
+import { fromD1Timestamp } from './datetime';
+
+/**
+ * 状态变更来源：用户操作、飞书表格编辑、后台操作
+ */
+export type StatusChangeSource = 'user' | 'feishu' | 'admin';
+
+/**
+ * 订单状态历史记录
+ */
+export interface StatusHistoryEntry {
+  fromStatus: string | null;
+  toStatus: string;
+  changedBy: string | null;
+  source: StatusChangeSource;
+  createdAt: string;
+}
+
+/**
+ * 记录订单状态变化
+ * 与最近一次记录的状态相同时忽略，重复投递的事件不会产生重复记录
+ */
+export async function recordStatusChange(
+  env: Env,
+  change: { orderId: string; toStatus: string; changedBy: string | null; source: StatusChangeSource; eventId?: string }
+): Promise<boolean> {
+  const result = await env.DB.prepare(
+    `INSERT INTO order_status_history (order_id, from_status, to_status, changed_by, source, event_id)
+     SELECT ?1, (SELECT to_status FROM order_status_history WHERE order_id = ?1 ORDER BY id DESC LIMIT 1), ?2, ?3, ?4, ?5
+     WHERE COALESCE((SELECT to_status FROM order_status_history WHERE order_id = ?1 ORDER BY id DESC LIMIT 1), '') != ?2`
+  ).bind(change.orderId, change.toStatus, change.changedBy, change.source, change.eventId || null).run();
+
+  return result.meta.changes > 0;
+}
+
+/**
+ * 获取订单状态历史（按时间正序）
+ */
+export async function getStatusHistory(env: Env, orderId: string): Promise<StatusHistoryEntry[]> {
+  const result = await env.DB.prepare(
+    'SELECT from_status, to_status, changed_by, source, created_at FROM order_status_history WHERE order_id = ? ORDER BY id ASC'
+  ).bind(orderId).all();
+
+  return (result.results || []).map((row: any) => ({
+    fromStatus: row.from_status,
+    toStatus: row.to_status,
+    changedBy: row.changed_by,
+    source: row.source,
+    createdAt: fromD1Timestamp(row.created_at)
+  }));
+}
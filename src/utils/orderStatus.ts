@@ -0,0 +1,80 @@
+/**
+ * 订单状态机
+ * 统一定义飞书订单状态、前端状态映射以及允许的状态流转
+ */
+
+/**
+ * 飞书订单表中的订单状态
+ */
+export type FeishuOrderStatus = '已下单' | '审核中' | '发货中' | '已签收' | '已结算' | '已取消';
+
+/**
+ * 前端使用的订单状态
+ */
+export type OrderStatus = 'pending' | 'processing' | 'shipped' | 'received' | 'completed' | 'cancelled';
+
+/**
+ * 飞书状态到前端状态的映射
+ */
+const ORDER_STATUS_MAP: Record<FeishuOrderStatus, OrderStatus> = {
+  '已下单': 'pending',
+  '审核中': 'processing',
+  '发货中': 'shipped',
+  '已签收': 'received',
+  '已结算': 'completed',
+  '已取消': 'cancelled'
+};
+
+/**
+ * 允许的状态流转
+ * 只能在已下单、审核中时取消，发货后只能按顺序推进
+ */
+const ORDER_STATUS_TRANSITIONS: Record<FeishuOrderStatus, FeishuOrderStatus[]> = {
+  '已下单': ['审核中', '已取消'],
+  '审核中': ['发货中', '已取消'],
+  '发货中': ['已签收'],
+  '已签收': ['已结算'],
+  '已结算': [],
+  '已取消': []
+};
+
+/**
+ * 正常履约流程的状态顺序（不含取消）
+ */
+export const ORDER_STATUS_FLOW: FeishuOrderStatus[] = ['已下单', '审核中', '发货中', '已签收', '已结算'];
+
+/**
+ * 判断是否为合法的飞书订单状态
+ */
+export function isFeishuOrderStatus(value: unknown): value is FeishuOrderStatus {
+  return typeof value === 'string' && value in ORDER_STATUS_MAP;
+}
+
+/**
+ * 判断是否为合法的前端订单状态
+ */
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === 'string' && Object.values(ORDER_STATUS_MAP).includes(value as OrderStatus);
+}
+
+/**
+ * 飞书状态转换为前端状态，未知状态按已下单处理
+ */
+export function toOrderStatus(feishuStatus: unknown): OrderStatus {
+  return isFeishuOrderStatus(feishuStatus) ? ORDER_STATUS_MAP[feishuStatus] : 'pending';
+}
+
+/**
+ * 前端状态转换为飞书状态
+ */
+export function toFeishuStatus(status: OrderStatus): FeishuOrderStatus {
+  return (Object.keys(ORDER_STATUS_MAP) as FeishuOrderStatus[]).find(key => ORDER_STATUS_MAP[key] === status)!;
+}
+
+/**
+ * 判断状态流转是否允许
+ */
+export function canTransition(from: unknown, to: FeishuOrderStatus): boolean {
+  const current = isFeishuOrderStatus(from) ? from : '已下单';
+  return ORDER_STATUS_TRANSITIONS[current].includes(to);
+}
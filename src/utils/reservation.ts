@@ -0,0 +1,144 @@
+/**
+ * 库存预留模块
+ * 下单时在D1中原子地预留商品数量，避免并发下单超卖
+ * 订单写入飞书后库存剩余（公式字段）已扣除订单数量，此时预留转为已提交，不再计入预留数量；
+ * 之后的库存变化（包括取消订单）以飞书库存剩余为准，与预留无关
+ */
+import type { Env } from '../index';
+
+/**
+ * 默认预留有效期（秒）
+ * 正常情况下预留在订单写入飞书后立即提交，有效期只用于兜底清理写入过程中中断的预留
+ */
+const DEFAULT_RESERVATION_TTL_SECONDS = 900;
+
+/**
+ * 预留请求项
+ */
+export interface ReservationItem {
+  productId: string;
+  productName: string;
+  quantity: number;
+  stock: number;
+}
+
+/**
+ * D1 写入语句的执行结果（D1Result 中用到的部分）
+ */
+interface D1RunResult {
+  meta: { changes: number };
+}
+
+/**
+ * 库存不足的商品
+ */
+export interface StockShortage {
+  productId: string;
+  productName: string;
+  requested: number;
+  available: number;
+}
+
+/**
+ * 获取商品当前有效的预留数量
+ */
+export async function getReservedQuantities(env: Env, productIds: string[]): Promise<Map<string, number>> {
+  const reserved = new Map<string, number>();
+  const uniqueIds = [...new Set(productIds)];
+  if (uniqueIds.length === 0) {
+    return reserved;
+  }
+
+  const placeholders = uniqueIds.map(() => '?').join(', ');
+  const result = await env.DB.prepare(
+    `SELECT product_id, SUM(quantity) as quantity FROM stock_reservations
+     WHERE product_id IN (${placeholders}) AND status = 'held' AND expires_at > datetime('now')
+     GROUP BY product_id`
+  ).bind(...uniqueIds).all();
+
+  for (const row of result.results || []) {
+    reserved.set(row.product_id, row.quantity);
+  }
+
+  return reserved;
+}
+
+/**
+ * 为订单预留库存
+ * 可用库存 = 飞书库存剩余 - 有效预留，所有商品在同一个D1事务中预留，任一商品不足则全部释放
+ */
+export async function reserveStock(env: Env, orderId: string, items: ReservationItem[]): Promise<{ success: boolean; shortages: StockShortage[] }> {
+  // 同一商品的多行合并计算
+  const merged = new Map<string, ReservationItem>();
+  for (const item of items) {
+    const existing = merged.get(item.productId);
+    if (existing) {
+      existing.quantity += item.quantity;
+    } else {
+      merged.set(item.productId, { ...item });
+    }
+  }
+  const mergedItems = [...merged.values()];
+
+  // 先检查全部商品，一次性列出所有库存不足的商品
+  const shortages = await findShortages(env, mergedItems);
+  if (shortages.length > 0) {
+    return { success: false, shortages };
+  }
+
+  const ttl = parseInt(env.STOCK_RESERVATION_TTL_SECONDS || '', 10) || DEFAULT_RESERVATION_TTL_SECONDS;
+
+  // 条件插入：只有预留后不超过飞书库存时才写入，D1 batch 在同一事务中执行
+  const results: D1RunResult[] = await env.DB.batch(mergedItems.map(item =>
+    env.DB.prepare(
+      `INSERT INTO stock_reservations (order_id, product_id, quantity, expires_at)
+       SELECT ?, ?, ?, datetime('now', ?)
+       WHERE ? + (
+         SELECT COALESCE(SUM(quantity), 0) FROM stock_reservations
+         WHERE product_id = ? AND status = 'held' AND expires_at > datetime('now')
+       ) <= ?`
+    ).bind(orderId, item.productId, item.quantity, `+${ttl} seconds`, item.quantity, item.productId, item.stock)
+  ));
+
+  // 检查期间被并发订单抢占，释放本订单已预留的部分并重新计算不足的商品
+  if (results.some(result => result.meta.changes === 0)) {
+    await releaseReservations(env, orderId);
+    return { success: false, shortages: await findShortages(env, mergedItems) };
+  }
+
+  return { success: true, shortages: [] };
+}
+
+/**
+ * 提交订单的库存预留（订单写入飞书后调用），飞书库存剩余已扣除订单数量，避免重复扣减
+ */
+export async function commitReservations(env: Env, orderId: string): Promise<void> {
+  await env.DB.prepare(
+    "UPDATE stock_reservations SET status = 'committed' WHERE order_id = ? AND status = 'held'"
+  ).bind(orderId).run();
+}
+
+/**
+ * 释放订单的库存预留（预留后下单失败时调用）
+ */
+export async function releaseReservations(env: Env, orderId: string): Promise<void> {
+  await env.DB.prepare(
+    "UPDATE stock_reservations SET status = 'released' WHERE order_id = ? AND status = 'held'"
+  ).bind(orderId).run();
+}
+
+/**
+ * 计算库存不足的商品
+ */
+async function findShortages(env: Env, items: ReservationItem[]): Promise<StockShortage[]> {
+  const reserved = await getReservedQuantities(env, items.map(item => item.productId));
+
+  return items
+    .map(item => ({
+      productId: item.productId,
+      productName: item.productName,
+      requested: item.quantity,
+      available: Math.max(0, item.stock - (reserved.get(item.productId) || 0))
+    }))
+    .filter(item => item.requested > item.available);
+}
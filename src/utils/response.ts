@@ -0,0 +1,242 @@
+/**
+ * 响应模块
+ * 统一JSON响应和错误格式 { error: { code, message, details } }，错误信息根据 Accept-Language 返回中文或英文
+ */
+
+/**
+ * 支持的语言
+ */
+export type Locale = 'zh-CN' | 'en';
+
+/**
+ * 默认语言
+ */
+const DEFAULT_LOCALE: Locale = 'zh-CN';
+
+/**
+ * 错误定义：HTTP状态码和各语言的错误信息，信息中的 {name} 由 details 中的同名字段替换，
+ * 字段为名称列表（字符串数组）时按语言格式化
+ */
+interface ErrorDefinition {
+  status: number;
+  'zh-CN': string;
+  en: string;
+}
+
+/**
+ * 错误码表，错误码对外稳定，前端可据此判断错误类型
+ */
+const ERRORS = {
+  // 通用
+  UNAUTHORIZED: { status: 401, 'zh-CN': '未授权访问', en: 'Unauthorized' },
+  FORBIDDEN: { status: 403, 'zh-CN': '权限不足', en: 'Permission denied' },
+  NOT_FOUND: { status: 404, 'zh-CN': '接口不存在', en: 'Endpoint not found' },
+  METHOD_NOT_ALLOWED: { status: 405, 'zh-CN': '不支持的请求方法', en: 'Method not allowed' },
+  RATE_LIMITED: { status: 429, 'zh-CN': '请求过于频繁，请稍后重试', en: 'Too many requests, please try again later' },
+  INTERNAL_ERROR: { status: 500, 'zh-CN': '服务器内部错误', en: 'Internal server error' },
+  INVALID_JSON: { status: 400, 'zh-CN': '请求体不是有效的JSON', en: 'Request body is not valid JSON' },
+  VALIDATION_FAILED: { status: 400, 'zh-CN': '以下字段无效：{fields}', en: 'Invalid fields: {fields}' },
+  IDEMPOTENCY_KEY_INVALID: { status: 400, 'zh-CN': '幂等键格式无效', en: 'Invalid idempotency key' },
+  IDEMPOTENCY_KEY_REUSED: { status: 409, 'zh-CN': '幂等键已用于其他请求', en: 'Idempotency key was used for a different request' },
+  REQUEST_IN_PROGRESS: { status: 409, 'zh-CN': '请求正在处理中，请稍后重试', en: 'Request is being processed, please try again later' },
+
+  // 认证
+  USERNAME_TOO_SHORT: { status: 400, 'zh-CN': '用户名长度至少为3位字符', en: 'Username must be at least 3 characters' },
+  USERNAME_NUMERIC: { status: 400, 'zh-CN': '用户名不能为纯数字', en: 'Username cannot be all digits' },
+  PASSWORD_TOO_SHORT: { status: 400, 'zh-CN': '密码长度至少为6位', en: 'Password must be at least 6 characters' },
+  PASSWORD_TOO_WEAK: { status: 400, 'zh-CN': '密码过于简单，请使用更复杂的密码', en: 'Password is too simple, please choose a stronger one' },
+  USERNAME_TAKEN: { status: 409, 'zh-CN': '用户名已存在', en: 'Username already exists' },
+  INVALID_CREDENTIALS: { status: 401, 'zh-CN': '用户名或密码错误', en: 'Incorrect username or password' },
+  LOGIN_LOCKED: { status: 429, 'zh-CN': '登录失败次数过多，请{minutes}分钟后再试', en: 'Too many failed login attempts, please try again in {minutes} minutes' },
+  ACCOUNT_DISABLED: { status: 403, 'zh-CN': '账户已被停用，请联系客服', en: 'Account has been disabled, please contact support' },
+  SESSION_EXPIRED: { status: 401, 'zh-CN': '登录已过期，请重新登录', en: 'Session expired, please log in again' },
+  RESET_CODE_INVALID: { status: 400, 'zh-CN': '重置码无效或已过期', en: 'Reset code is invalid or expired' },
+  REGISTER_FAILED: { status: 500, 'zh-CN': '注册失败', en: 'Registration failed' },
+  LOGIN_FAILED: { status: 500, 'zh-CN': '登录失败', en: 'Login failed' },
+  REFRESH_FAILED: { status: 500, 'zh-CN': '刷新登录状态失败', en: 'Failed to refresh session' },
+  LOGOUT_FAILED: { status: 500, 'zh-CN': '登出失败', en: 'Logout failed' },
+  RESET_PASSWORD_FAILED: { status: 500, 'zh-CN': '重置密码失败', en: 'Failed to reset password' },
+
+  // 用户
+  USER_NOT_FOUND: { status: 404, 'zh-CN': '用户不存在', en: 'User not found' },
+  WRONG_PASSWORD: { status: 400, 'zh-CN': '当前密码错误', en: 'Current password is incorrect' },
+  PASSWORD_UNCHANGED: { status: 400, 'zh-CN': '新密码不能与当前密码相同', en: 'New password must differ from the current password' },
+  ADDRESS_NOT_FOUND: { status: 404, 'zh-CN': '收货地址不存在或无权限', en: 'Address not found' },
+  DEFAULT_ADDRESS_REQUIRED: { status: 400, 'zh-CN': '无法取消唯一地址的默认设置', en: 'The only address must remain the default' },
+  FAVORITES_LIMIT: { status: 400, 'zh-CN': '最多收藏{max}件商品', en: 'You can save at most {max} favorites' },
+  PROFILE_FETCH_FAILED: { status: 500, 'zh-CN': '获取用户信息失败', en: 'Failed to load profile' },
+  PROFILE_UPDATE_FAILED: { status: 500, 'zh-CN': '更新用户信息失败', en: 'Failed to update profile' },
+  PASSWORD_CHANGE_FAILED: { status: 500, 'zh-CN': '修改密码失败', en: 'Failed to change password' },
+  ADDRESS_LIST_FAILED: { status: 500, 'zh-CN': '获取收货地址失败', en: 'Failed to load addresses' },
+  ADDRESS_CREATE_FAILED: { status: 500, 'zh-CN': '添加收货地址失败', en: 'Failed to add address' },
+  ADDRESS_UPDATE_FAILED: { status: 500, 'zh-CN': '更新收货地址失败', en: 'Failed to update address' },
+  ADDRESS_DELETE_FAILED: { status: 500, 'zh-CN': '删除收货地址失败', en: 'Failed to delete address' },
+  FAVORITES_FETCH_FAILED: { status: 500, 'zh-CN': '获取收藏列表失败', en: 'Failed to load favorites' },
+  FAVORITE_ADD_FAILED: { status: 500, 'zh-CN': '收藏商品失败', en: 'Failed to add favorite' },
+  FAVORITE_REMOVE_FAILED: { status: 500, 'zh-CN': '取消收藏失败', en: 'Failed to remove favorite' },
+
+  // 商品
+  PRODUCT_NOT_FOUND: { status: 404, 'zh-CN': '商品不存在', en: 'Product not found' },
+  VARIANT_REQUIRED: { status: 400, 'zh-CN': '商品「{productName}」有多个规格，请选择具体规格', en: 'Please choose a variant of "{productName}"' },
+  VARIANT_MISMATCH: { status: 400, 'zh-CN': '规格「{productName}」不属于所选商品', en: 'Variant "{productName}" does not belong to the selected product' },
+  INSUFFICIENT_STOCK: { status: 400, 'zh-CN': '以下商品库存不足：{productNames}', en: 'Insufficient stock: {productNames}' },
+  OUT_OF_STOCK: { status: 400, 'zh-CN': '「{productName}」已售罄', en: '"{productName}" is sold out' },
+  STOCK_UNAVAILABLE: { status: 400, 'zh-CN': '商品库存不足，请稍后重试', en: 'Insufficient stock, please try again later' },
+  PAGE_SIZE_INVALID: { status: 400, 'zh-CN': '每页数量必须为1到{max}之间的整数', en: 'Page size must be an integer between 1 and {max}' },
+  TOO_MANY_CATEGORIES: { status: 400, 'zh-CN': '最多同时选择{max}个分类', en: 'At most {max} categories can be selected' },
+  MIN_PRICE_INVALID: { status: 400, 'zh-CN': '最低价格参数无效', en: 'Invalid minimum price' },
+  MAX_PRICE_INVALID: { status: 400, 'zh-CN': '最高价格参数无效', en: 'Invalid maximum price' },
+  PRICE_RANGE_INVALID: { status: 400, 'zh-CN': '最低价格不能高于最高价格', en: 'Minimum price cannot exceed maximum price' },
+  IN_STOCK_INVALID: { status: 400, 'zh-CN': '有货筛选参数无效', en: 'Invalid in-stock filter' },
+  SORT_INVALID: { status: 400, 'zh-CN': '不支持的排序方式：{sort}', en: 'Unsupported sort: {sort}' },
+  SORT_UNAVAILABLE: { status: 400, 'zh-CN': '商品目录尚未同步，暂不支持该排序方式：{sort}', en: 'Sort is unavailable until the catalog is synced: {sort}' },
+  PRODUCT_LIST_FAILED: { status: 500, 'zh-CN': '获取商品列表失败', en: 'Failed to load products' },
+  CATEGORY_LIST_FAILED: { status: 500, 'zh-CN': '获取商品分类失败', en: 'Failed to load categories' },
+  PRODUCT_FETCH_FAILED: { status: 500, 'zh-CN': '获取商品详情失败', en: 'Failed to load product' },
+  FILE_TOKEN_REQUIRED: { status: 400, 'zh-CN': '缺少图片文件标识', en: 'Missing file_token' },
+  IMAGE_FETCH_FAILED: { status: 500, 'zh-CN': '获取图片失败', en: 'Failed to fetch image' },
+
+  // 购物车
+  CART_LIMIT: { status: 400, 'zh-CN': '购物车最多添加{max}种商品', en: 'Your cart can hold at most {max} products' },
+  CART_ITEM_NOT_FOUND: { status: 404, 'zh-CN': '购物车中没有该商品', en: 'Product is not in your cart' },
+  CART_FETCH_FAILED: { status: 500, 'zh-CN': '获取购物车失败', en: 'Failed to load cart' },
+  CART_ADD_FAILED: { status: 500, 'zh-CN': '加入购物车失败', en: 'Failed to add to cart' },
+  CART_UPDATE_FAILED: { status: 500, 'zh-CN': '更新购物车失败', en: 'Failed to update cart' },
+  CART_REMOVE_FAILED: { status: 500, 'zh-CN': '移除商品失败', en: 'Failed to remove product' },
+  CART_CLEAR_FAILED: { status: 500, 'zh-CN': '清空购物车失败', en: 'Failed to clear cart' },
+  CART_MERGE_FAILED: { status: 500, 'zh-CN': '同步购物车失败', en: 'Failed to sync cart' },
+
+  // 订单
+  ORDER_NOT_FOUND: { status: 404, 'zh-CN': '订单不存在', en: 'Order not found' },
+  ORDER_STATUS_INVALID: { status: 400, 'zh-CN': '订单状态参数无效', en: 'Invalid order status' },
+  DATE_FROM_INVALID: { status: 400, 'zh-CN': '开始时间参数无效', en: 'Invalid start time' },
+  DATE_TO_INVALID: { status: 400, 'zh-CN': '结束时间参数无效', en: 'Invalid end time' },
+  DATE_RANGE_INVALID: { status: 400, 'zh-CN': '开始时间不能晚于结束时间', en: 'Start time cannot be later than end time' },
+  ORDER_NOT_CANCELLABLE: { status: 409, 'zh-CN': '订单当前状态为「{status}」，无法取消', en: 'Order cannot be cancelled in status "{status}"' },
+  ORDER_STATUS_CONFLICT: { status: 409, 'zh-CN': '订单当前状态为「{status}」，无法变更为「{targetStatus}」', en: 'Order cannot change from "{status}" to "{targetStatus}"' },
+  EXPORT_FORMAT_INVALID: { status: 400, 'zh-CN': '导出格式仅支持 csv 或 xlsx', en: 'Export format must be csv or xlsx' },
+  REORDER_UNAVAILABLE: { status: 400, 'zh-CN': '原订单中的商品均无法购买', en: 'None of the products in this order are available' },
+  REORDER_CHANGED: { status: 409, 'zh-CN': '商品价格或库存已变化，请重新确认', en: 'Prices or stock have changed, please confirm again' },
+  ORDER_CREATE_FAILED: { status: 500, 'zh-CN': '创建订单失败', en: 'Failed to create order' },
+  ORDER_LIST_FAILED: { status: 500, 'zh-CN': '获取订单列表失败', en: 'Failed to load orders' },
+  ORDER_FETCH_FAILED: { status: 500, 'zh-CN': '获取订单详情失败', en: 'Failed to load order' },
+  ORDER_CANCEL_FAILED: { status: 500, 'zh-CN': '取消订单失败', en: 'Failed to cancel order' },
+  ORDER_EXPORT_FAILED: { status: 500, 'zh-CN': '导出订单失败', en: 'Failed to export orders' },
+  ORDER_STATUS_UPDATE_FAILED: { status: 500, 'zh-CN': '更新订单状态失败', en: 'Failed to update order status' },
+  REORDER_FAILED: { status: 500, 'zh-CN': '再次购买失败', en: 'Failed to reorder' },
+
+  // 管理后台
+  ROLE_INVALID: { status: 400, 'zh-CN': '无效的角色：{role}', en: 'Invalid role: {role}' },
+  ACCOUNT_STATUS_INVALID: { status: 400, 'zh-CN': '无效的账户状态：{status}', en: 'Invalid account status: {status}' },
+  CANNOT_DISABLE_SELF: { status: 400, 'zh-CN': '不能停用自己的账户', en: 'You cannot disable your own account' },
+  USER_LIST_FAILED: { status: 500, 'zh-CN': '获取用户列表失败', en: 'Failed to load users' },
+  USER_FETCH_FAILED: { status: 500, 'zh-CN': '获取用户详情失败', en: 'Failed to load user' },
+  NOTES_UPDATE_FAILED: { status: 500, 'zh-CN': '更新备注失败', en: 'Failed to update notes' },
+  USER_DISABLE_FAILED: { status: 500, 'zh-CN': '停用账户失败', en: 'Failed to disable account' },
+  USER_ENABLE_FAILED: { status: 500, 'zh-CN': '启用账户失败', en: 'Failed to enable account' },
+  RESET_CODE_ISSUE_FAILED: { status: 500, 'zh-CN': '生成重置码失败', en: 'Failed to issue reset code' },
+
+  // 飞书事件
+  EVENT_VERIFICATION_NOT_CONFIGURED: { status: 403, 'zh-CN': '未配置事件校验，拒绝处理事件', en: 'Event verification is not configured' },
+  EVENT_SIGNATURE_INVALID: { status: 401, 'zh-CN': '签名校验失败', en: 'Invalid signature' },
+  EVENT_EXPIRED: { status: 401, 'zh-CN': '事件请求已过期', en: 'Event request has expired' },
+  EVENT_NOT_ENCRYPTED: { status: 400, 'zh-CN': '事件数据未加密', en: 'Event payload is not encrypted' },
+  EVENT_TOKEN_INVALID: { status: 401, 'zh-CN': 'Verification Token 校验失败', en: 'Invalid verification token' },
+  EVENT_HANDLING_FAILED: { status: 500, 'zh-CN': '事件处理失败', en: 'Failed to handle event' },
+} satisfies Record<string, ErrorDefinition>;
+
+/**
+ * 错误码
+ */
+export type ErrorCode = keyof typeof ERRORS;
+
+/**
+ * 错误详情
+ */
+export type ErrorDetails = Record<string, unknown>;
+
+/**
+ * 错误响应，保留错误码和详情，以便在入口处按请求语言重新生成错误信息
+ */
+export class ApiErrorResponse extends Response {
+  constructor(readonly code: ErrorCode, readonly details: ErrorDetails | null, headers?: Record<string, string>) {
+    super(JSON.stringify(errorBody(code, details, DEFAULT_LOCALE)), {
+      status: ERRORS[code].status,
+      headers: { 'Content-Type': 'application/json', ...headers },
+    });
+  }
+}
+
+/**
+ * JSON响应
+ */
+export function jsonResponse(data: unknown, status = 200, headers?: Record<string, string>): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+/**
+ * 错误响应，状态码由错误码决定
+ */
+export function errorResponse(code: ErrorCode, details: ErrorDetails | null = null, headers?: Record<string, string>): ApiErrorResponse {
+  return new ApiErrorResponse(code, details, headers);
+}
+
+/**
+ * 按请求的 Accept-Language 重新生成错误信息，非默认语言时才需要替换响应体
+ */
+export function localizeResponse(response: Response, request: Request): Response {
+  const locale = resolveLocale(request.headers.get('Accept-Language'));
+  if (!(response instanceof ApiErrorResponse) || locale === DEFAULT_LOCALE) {
+    return response;
+  }
+
+  return new Response(JSON.stringify(errorBody(response.code, response.details, locale)), response);
+}
+
+/**
+ * 根据 Accept-Language 选择语言，按权重依次匹配，无匹配时使用默认语言
+ */
+export function resolveLocale(acceptLanguage: string | null): Locale {
+  const languages = (acceptLanguage || '')
+    .split(',')
+    .map(part => {
+      const [tag, ...params] = part.trim().toLowerCase().split(';');
+      const quality = params.find(param => param.trim().startsWith('q='));
+      return { tag, q: quality ? parseFloat(quality.trim().slice(2)) || 0 : 1 };
+    })
+    .filter(language => language.tag && language.q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  for (const { tag } of languages) {
+    if (tag.startsWith('zh')) return 'zh-CN';
+    if (tag.startsWith('en')) return 'en';
+  }
+
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * 生成错误响应体
+ */
+function errorBody(code: ErrorCode, details: ErrorDetails | null, locale: Locale): { error: { code: ErrorCode; message: string; details: ErrorDetails | null } } {
+  const message = ERRORS[code][locale].replace(/\{(\w+)\}/g, (placeholder, name) => {
+    const value = details?.[name];
+    if (value === undefined) {
+      return placeholder;
+    }
+    return Array.isArray(value) ? formatNameList(value.map(String), locale) : String(value);
+  });
+  return { error: { code, message, details } };
+}
+
+/**
+ * 按语言格式化名称列表：中文为「a」、「b」，英文为 "a", "b"
+ */
+function formatNameList(names: string[], locale: Locale): string {
+  return locale === 'zh-CN'
+    ? names.map(name => `「${name}」`).join('、')
+    : names.map(name => `"${name}"`).join(', ');
+}
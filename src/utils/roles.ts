@@ -0,0 +1,26 @@
+/**
+ * 角色权限模块
+ * 定义用户角色以及各角色可访问的管理功能
+ */
+
+/**
+ * 用户角色：普通用户、运营、管理员
+ */
+export type Role = 'user' | 'ops' | 'admin';
+
+/**
+ * 全部角色
+ */
+export const ROLES: Role[] = ['user', 'ops', 'admin'];
+
+/**
+ * 后台员工角色
+ */
+export const STAFF_ROLES: Role[] = ['ops', 'admin'];
+
+/**
+ * 判断是否为合法角色
+ */
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
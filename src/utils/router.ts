@@ -0,0 +1,161 @@
+/**
+ * 路由模块
+ * 声明式注册路由，路径参数（如 /api/orders/:id）自动推导类型，可附加正则约束（如 :id(\d+)，约束中不能使用捕获分组）；
+ * 路径匹配但方法不支持时返回405并附带 Allow 头，路由可配置认证、角色等中间件
+ */
+import type { Env } from '../index';
+import { errorResponse } from './response';
+
+/**
+ * 支持的请求方法
+ */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+/**
+ * 路径参数名，去掉参数后的正则约束，如 'id(\d+)' 为 'id'
+ */
+type ParamName<Segment extends string> = Segment extends `${infer Name}(${string}` ? Name : Segment;
+
+/**
+ * 从路径模板推导路径参数，如 '/api/orders/:id/cancel' 推导为 { id: string }
+ */
+export type RouteParams<Path extends string> =
+  Path extends `${string}:${infer Param}/${infer Rest}`
+    ? { [K in ParamName<Param> | keyof RouteParams<`/${Rest}`>]: string }
+    : Path extends `${string}:${infer Param}`
+      ? { [K in ParamName<Param>]: string }
+      : {};
+
+/**
+ * 路由上下文
+ */
+export interface RouteContext<Path extends string = string> {
+  request: Request;
+  env: Env;
+  ctx: any;
+  params: RouteParams<Path>;
+}
+
+/**
+ * 路由中间件
+ * 返回 Response 时中断请求；返回对象时合并到处理函数的上下文中（如已认证用户）
+ */
+export type Middleware<Extra extends object = {}> = (context: RouteContext) => Promise<Response | Extra>;
+
+/**
+ * 中间件依次合并到上下文中的数据
+ */
+type MiddlewareExtra<M extends Middleware<object>[]> =
+  M extends [Middleware<infer First>, ...infer Rest extends Middleware<object>[]]
+    ? First & MiddlewareExtra<Rest>
+    : {};
+
+/**
+ * 路由处理函数
+ */
+export type RouteHandler<Path extends string, Extra extends object = {}> = (context: RouteContext<Path> & Extra) => Promise<Response>;
+
+/**
+ * 已注册的路由
+ */
+interface Route {
+  method: HttpMethod;
+  pattern: RegExp;
+  paramNames: string[];
+  middleware: Middleware<object>[];
+  handler: RouteHandler<string, any>;
+}
+
+/**
+ * 路由器
+ * 按注册顺序匹配，静态路径需在同前缀的参数路径之前注册
+ */
+export class Router {
+  private routes: Route[] = [];
+
+  get<Path extends string, M extends Middleware<object>[]>(path: Path, middleware: [...M], handler: RouteHandler<Path, MiddlewareExtra<M>>): this {
+    return this.add('GET', path, middleware, handler);
+  }
+
+  post<Path extends string, M extends Middleware<object>[]>(path: Path, middleware: [...M], handler: RouteHandler<Path, MiddlewareExtra<M>>): this {
+    return this.add('POST', path, middleware, handler);
+  }
+
+  put<Path extends string, M extends Middleware<object>[]>(path: Path, middleware: [...M], handler: RouteHandler<Path, MiddlewareExtra<M>>): this {
+    return this.add('PUT', path, middleware, handler);
+  }
+
+  delete<Path extends string, M extends Middleware<object>[]>(path: Path, middleware: [...M], handler: RouteHandler<Path, MiddlewareExtra<M>>): this {
+    return this.add('DELETE', path, middleware, handler);
+  }
+
+  /**
+   * 分发请求
+   * 没有路径匹配时返回null，由调用方处理404
+   */
+  async handle(request: Request, env: Env, ctx: any, path: string): Promise<Response | null> {
+    const allowed = new Set<HttpMethod>();
+
+    for (const route of this.routes) {
+      const match = route.pattern.exec(path);
+      if (!match) continue;
+
+      if (route.method !== request.method) {
+        allowed.add(route.method);
+        continue;
+      }
+
+      const params: Record<string, string> = {};
+      route.paramNames.forEach((name, index) => {
+        params[name] = decodeParam(match[index + 1]);
+      });
+
+      let context: any = { request, env, ctx, params };
+      for (const middleware of route.middleware) {
+        const result = await middleware(context);
+        if (result instanceof Response) {
+          return result;
+        }
+        context = { ...context, ...result };
+      }
+
+      return await route.handler(context);
+    }
+
+    if (allowed.size === 0) {
+      return null;
+    }
+
+    return errorResponse('METHOD_NOT_ALLOWED', null, { 'Allow': [...allowed].join(', ') });
+  }
+
+  private add(method: HttpMethod, path: string, middleware: Middleware<object>[], handler: RouteHandler<string, any>): this {
+    const paramNames: string[] = [];
+    // 路径参数默认匹配单个路径段，飞书记录ID等任意字符均可匹配
+    const source = path
+      .split('/')
+      .map(segment => {
+        const param = segment.match(/^:(\w+)(?:\((.+)\))?$/);
+        if (param) {
+          paramNames.push(param[1]);
+          return `(${param[2] || '[^/]+'})`;
+        }
+        return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('/');
+
+    this.routes.push({ method, pattern: new RegExp(`^${source}$`), paramNames, middleware, handler });
+    return this;
+  }
+}
+
+/**
+ * 解码路径参数，编码无效时保留原值
+ */
+function decodeParam(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
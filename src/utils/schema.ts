@@ -0,0 +1,302 @@
+/**
+ * 请求体校验模块
+ * 以声明式 schema 描述请求体，校验失败时返回字段级的400错误，处理函数使用的类型由 schema 推导（Infer<typeof schema>）
+ */
+import { errorResponse } from './response';
+import type { Middleware } from './router';
+
+/**
+ * 字段错误类型
+ */
+export type FieldIssueCode =
+  | 'required'
+  | 'unknown_field'
+  | 'invalid_type'
+  | 'too_short'
+  | 'too_long'
+  | 'too_small'
+  | 'too_large'
+  | 'not_integer'
+  | 'invalid_format'
+  | 'invalid_value';
+
+/**
+ * 字段错误，field 为字段路径（如 items[0].quantity），请求体本身的错误为 body
+ */
+export interface FieldIssue {
+  field: string;
+  code: FieldIssueCode;
+  expected?: string;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * 校验规则
+ * parse 返回校验并规整后的值，有错误时记录到 issues，此时返回值无意义
+ */
+export interface Schema<T> {
+  readonly optional?: boolean;
+  parse(value: unknown, field: string, issues: FieldIssue[]): T;
+}
+
+/**
+ * 可选字段的校验规则，对象中对应的属性推导为可选属性
+ */
+interface OptionalSchema<T> extends Schema<T | undefined> {
+  readonly optional: true;
+}
+
+/**
+ * 由校验规则推导出的类型
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never }[keyof S];
+
+type ObjectOutput<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+  { [K in OptionalKeys<S>]?: Exclude<Infer<S[K]>, undefined> }
+>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * 字符串，trim 为 true 时去除首尾空白后再校验长度和格式；min 不小于1时空字符串视为未填写
+ */
+export function string(options: { trim?: boolean; min?: number; max?: number; pattern?: RegExp } = {}): Schema<string> {
+  return {
+    parse(value, field, issues) {
+      if (value === undefined || value === null) {
+        issues.push({ field, code: 'required' });
+        return '';
+      }
+      if (typeof value !== 'string') {
+        issues.push({ field, code: 'invalid_type', expected: 'string' });
+        return '';
+      }
+
+      const text = options.trim ? value.trim() : value;
+      if (options.min !== undefined && text.length < options.min) {
+        issues.push(text.length === 0 ? { field, code: 'required' } : { field, code: 'too_short', min: options.min });
+      } else if (options.max !== undefined && text.length > options.max) {
+        issues.push({ field, code: 'too_long', max: options.max });
+      } else if (options.pattern && !options.pattern.test(text)) {
+        issues.push({ field, code: 'invalid_format' });
+      }
+      return text;
+    }
+  };
+}
+
+/**
+ * 数字，integer 为 true 时只接受整数
+ */
+export function number(options: { integer?: boolean; min?: number; max?: number } = {}): Schema<number> {
+  return {
+    parse(value, field, issues) {
+      if (value === undefined || value === null) {
+        issues.push({ field, code: 'required' });
+        return 0;
+      }
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ field, code: 'invalid_type', expected: 'number' });
+        return 0;
+      }
+
+      if (options.integer && !Number.isInteger(value)) {
+        issues.push({ field, code: 'not_integer' });
+      } else if (options.min !== undefined && value < options.min) {
+        issues.push({ field, code: 'too_small', min: options.min });
+      } else if (options.max !== undefined && value > options.max) {
+        issues.push({ field, code: 'too_large', max: options.max });
+      }
+      return value;
+    }
+  };
+}
+
+/**
+ * 布尔值
+ */
+export function boolean(): Schema<boolean> {
+  return {
+    parse(value, field, issues) {
+      if (value === undefined || value === null) {
+        issues.push({ field, code: 'required' });
+        return false;
+      }
+      if (typeof value !== 'boolean') {
+        issues.push({ field, code: 'invalid_type', expected: 'boolean' });
+        return false;
+      }
+      return value;
+    }
+  };
+}
+
+/**
+ * 固定值，常用于区分请求体的不同形式（见 union）
+ */
+export function literal<T extends string | number | boolean>(expected: T): Schema<T> {
+  return {
+    parse(value, field, issues) {
+      if (value === undefined || value === null) {
+        issues.push({ field, code: 'required' });
+      } else if (value !== expected) {
+        issues.push({ field, code: 'invalid_value', expected: String(expected) });
+      }
+      return expected;
+    }
+  };
+}
+
+/**
+ * 数组，逐项按 item 校验
+ */
+export function array<T>(item: Schema<T>, options: { min?: number; max?: number } = {}): Schema<T[]> {
+  return {
+    parse(value, field, issues) {
+      if (value === undefined || value === null) {
+        issues.push({ field, code: 'required' });
+        return [];
+      }
+      if (!Array.isArray(value)) {
+        issues.push({ field, code: 'invalid_type', expected: 'array' });
+        return [];
+      }
+
+      if (options.min !== undefined && value.length < options.min) {
+        issues.push(value.length === 0 ? { field, code: 'required' } : { field, code: 'too_short', min: options.min });
+      } else if (options.max !== undefined && value.length > options.max) {
+        issues.push({ field, code: 'too_long', max: options.max });
+      }
+      return value.map((element, index) => item.parse(element, `${field}[${index}]`, issues));
+    }
+  };
+}
+
+/**
+ * 对象，不允许出现 shape 中未声明的字段
+ */
+export function object<S extends Shape>(shape: S): Schema<ObjectOutput<S>> {
+  return {
+    parse(value, field, issues) {
+      if (value === undefined || value === null) {
+        issues.push({ field, code: 'required' });
+        return {} as ObjectOutput<S>;
+      }
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        issues.push({ field, code: 'invalid_type', expected: 'object' });
+        return {} as ObjectOutput<S>;
+      }
+
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      for (const key of Object.keys(input)) {
+        if (!Object.prototype.hasOwnProperty.call(shape, key)) {
+          issues.push({ field: childField(field, key), code: 'unknown_field' });
+        }
+      }
+      for (const [key, schema] of Object.entries(shape)) {
+        const parsed = schema.parse(input[key], childField(field, key), issues);
+        if (parsed !== undefined) {
+          output[key] = parsed;
+        }
+      }
+      return output as ObjectOutput<S>;
+    }
+  };
+}
+
+/**
+ * 可选字段，未提供或为null时跳过校验
+ */
+export function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+  return {
+    optional: true,
+    parse(value, field, issues) {
+      return value === undefined || value === null ? undefined : schema.parse(value, field, issues);
+    }
+  };
+}
+
+/**
+ * 多种形式之一，依次尝试各 schema，返回第一个校验通过的结果；
+ * 均不通过时报告最接近的 schema 的错误：优先固定值（literal）匹配的，其次错误最少的
+ */
+export function union<S extends Schema<unknown>[]>(...schemas: S): Schema<Infer<S[number]>> {
+  return {
+    parse(value, field, issues) {
+      let bestIssues: FieldIssue[] | null = null;
+      let bestData: unknown;
+      for (const schema of schemas) {
+        const schemaIssues: FieldIssue[] = [];
+        const data = schema.parse(value, field, schemaIssues);
+        if (schemaIssues.length === 0) {
+          return data as Infer<S[number]>;
+        }
+        if (!bestIssues || unionRank(schemaIssues) < unionRank(bestIssues)) {
+          bestIssues = schemaIssues;
+          bestData = data;
+        }
+      }
+      issues.push(...(bestIssues ?? []));
+      return bestData as Infer<S[number]>;
+    }
+  };
+}
+
+/**
+ * 按 schema 校验数据
+ */
+export function validate<T>(schema: Schema<T>, value: unknown): { data: T } | { issues: FieldIssue[] } {
+  const issues: FieldIssue[] = [];
+  const data = schema.parse(value, '', issues);
+  return issues.length > 0 ? { issues: issues.map(issue => ({ ...issue, field: issue.field || 'body' })) } : { data };
+}
+
+/**
+ * 请求体校验中间件
+ * 请求体不是有效的JSON时返回 INVALID_JSON，校验失败时返回 VALIDATION_FAILED 并列出各字段错误；
+ * 校验通过的数据以 body 传给处理函数。读取的是请求副本，原请求体仍可由幂等中间件等读取
+ */
+export function jsonBody<T>(schema: Schema<T>): Middleware<{ body: T }> {
+  return async ({ request }) => {
+    const text = await request.clone().text();
+
+    let value: unknown;
+    try {
+      // 空请求体按未提供处理，由 schema 决定是否允许
+      value = text.trim() ? JSON.parse(text) : undefined;
+    } catch {
+      return errorResponse('INVALID_JSON');
+    }
+
+    const result = validate(schema, value);
+    if ('issues' in result) {
+      return errorResponse('VALIDATION_FAILED', {
+        fields: [...new Set(result.issues.map(issue => issue.field))].join(', '),
+        issues: result.issues
+      });
+    }
+
+    return { body: result.data };
+  };
+}
+
+/**
+ * union 中各 schema 错误的排序依据，固定值不匹配的排在最后
+ */
+function unionRank(issues: FieldIssue[]): number {
+  return issues.length + (issues.some(issue => issue.code === 'invalid_value') ? 1000 : 0);
+}
+
+/**
+ * 拼接字段路径
+ */
+function childField(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
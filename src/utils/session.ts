@@ -0,0 +1,171 @@
+/**
+ * 会话管理模块
+ * 短期访问令牌 + 轮换刷新令牌，刷新令牌仅在D1中保存哈希
+ */
+import type { Env } from '../index';
+import { generateJWT, getJWTKeys } from './jwt';
+import { deriveToken, generateSecureToken, sha256Hex } from './crypto';
+import type { Role } from './roles';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * 访问令牌有效期（秒）
+ */
+export const ACCESS_TOKEN_TTL = 15 * 60;
+
+/**
+ * 刷新令牌有效期（秒）
+ */
+const REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60;
+
+/**
+ * 已轮换的刷新令牌仍可使用的宽限时间（秒）
+ * 多个标签页同时刷新时，后到的请求在宽限时间内拿到同一个后继令牌，而不是被当作泄露吊销整个会话
+ */
+const REFRESH_REUSE_GRACE = 30;
+
+/**
+ * 登录凭证
+ */
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+/**
+ * 创建新会话（登录、注册时调用）
+ */
+export async function createSession(env: Env, user: { userId: number; username: string; role: Role }): Promise<SessionTokens> {
+  return await issueTokens(env, user, uuidv4());
+}
+
+/**
+ * 使用刷新令牌换取新的令牌
+ * 刷新令牌只能轮换一次，后继令牌由原令牌派生，宽限时间内再次使用原令牌返回同一个后继令牌；
+ * 超过宽限时间后再次出现视为泄露，吊销整个令牌族
+ */
+export async function rotateRefreshToken(env: Env, refreshToken: string): Promise<SessionTokens | null> {
+  const tokenHash = await sha256Hex(refreshToken);
+  const record = await env.DB.prepare(
+    `SELECT refresh_tokens.id, refresh_tokens.family_id, refresh_tokens.revoked_at,
+            refresh_tokens.revoked_at > datetime('now', ?) as in_grace,
+            refresh_tokens.expires_at > datetime('now') as active, users.id as user_id, users.username,
+            users.role, users.disabled_at
+     FROM refresh_tokens JOIN users ON users.id = refresh_tokens.user_id
+     WHERE refresh_tokens.token_hash = ?`
+  ).bind(`-${REFRESH_REUSE_GRACE} seconds`, tokenHash).first();
+
+  if (!record) {
+    return null;
+  }
+
+  const user = { userId: record.user_id, username: record.username, role: record.role };
+  const successor = await deriveToken(getJWTKeys(env)[0].secret, refreshToken);
+
+  if (record.revoked_at) {
+    if (record.in_grace) {
+      return await issueSuccessor(env, user, record.family_id, successor);
+    }
+    console.warn(`Refresh token reuse detected: user=${record.user_id}, family=${record.family_id}`);
+    await revokeSession(env, record.family_id);
+    return null;
+  }
+
+  // 过期或账户已停用
+  if (!record.active || record.disabled_at) {
+    return null;
+  }
+
+  // 写入后继令牌和吊销原令牌在同一事务中，且只在原令牌未吊销时写入：
+  // 并发刷新的请求看到原令牌已吊销时后继令牌一定已写入，会话已登出时不会写入
+  await env.DB.batch([
+    env.DB.prepare(
+      `INSERT OR IGNORE INTO refresh_tokens (user_id, family_id, token_hash, expires_at)
+       SELECT ?, ?, ?, datetime('now', ?) WHERE EXISTS (SELECT 1 FROM refresh_tokens WHERE id = ? AND revoked_at IS NULL)`
+    ).bind(user.userId, record.family_id, await sha256Hex(successor), `+${REFRESH_TOKEN_TTL} seconds`, record.id),
+    env.DB.prepare(
+      'UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND revoked_at IS NULL'
+    ).bind(record.id)
+  ]);
+
+  return await issueSuccessor(env, user, record.family_id, successor);
+}
+
+/**
+ * 后继令牌仍有效时签发新的访问令牌并返回该后继令牌
+ * 会话已登出或后继令牌已再次轮换时返回null
+ */
+async function issueSuccessor(
+  env: Env,
+  user: { userId: number; username: string; role: Role },
+  sessionId: string,
+  successor: string
+): Promise<SessionTokens | null> {
+  const record = await env.DB.prepare(
+    "SELECT 1 FROM refresh_tokens WHERE token_hash = ? AND family_id = ? AND revoked_at IS NULL AND expires_at > datetime('now')"
+  ).bind(await sha256Hex(successor), sessionId).first();
+
+  if (!record) {
+    return null;
+  }
+
+  const token = await generateJWT({ userId: user.userId, username: user.username, role: user.role, sid: sessionId }, getJWTKeys(env)[0], ACCESS_TOKEN_TTL);
+
+  return { token, refreshToken: successor, expiresIn: ACCESS_TOKEN_TTL };
+}
+
+/**
+ * 根据刷新令牌查找会话ID
+ */
+export async function findSessionByRefreshToken(env: Env, refreshToken: string): Promise<string | null> {
+  const record = await env.DB.prepare(
+    'SELECT family_id FROM refresh_tokens WHERE token_hash = ?'
+  ).bind(await sha256Hex(refreshToken)).first();
+
+  return record ? record.family_id : null;
+}
+
+/**
+ * 吊销会话（整个刷新令牌族）
+ */
+export async function revokeSession(env: Env, sessionId: string): Promise<void> {
+  await env.DB.prepare(
+    'UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE family_id = ? AND revoked_at IS NULL'
+  ).bind(sessionId).run();
+}
+
+/**
+ * 吊销用户的全部会话（修改或重置密码时调用）
+ */
+export async function revokeUserSessions(env: Env, userId: number): Promise<void> {
+  await env.DB.prepare(
+    'UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = ? AND revoked_at IS NULL'
+  ).bind(userId).run();
+}
+
+/**
+ * 判断会话是否有效（存在未吊销且未过期的刷新令牌）
+ */
+export async function isSessionActive(env: Env, sessionId: string): Promise<boolean> {
+  const record = await env.DB.prepare(
+    "SELECT 1 FROM refresh_tokens WHERE family_id = ? AND revoked_at IS NULL AND expires_at > datetime('now') LIMIT 1"
+  ).bind(sessionId).first();
+
+  return !!record;
+}
+
+/**
+ * 签发访问令牌和刷新令牌
+ */
+async function issueTokens(env: Env, user: { userId: number; username: string; role: Role }, sessionId: string): Promise<SessionTokens> {
+  const refreshToken = generateSecureToken();
+
+  await env.DB.prepare(
+    "INSERT INTO refresh_tokens (user_id, family_id, token_hash, expires_at) VALUES (?, ?, ?, datetime('now', ?))"
+  ).bind(user.userId, sessionId, await sha256Hex(refreshToken), `+${REFRESH_TOKEN_TTL} seconds`).run();
+
+  const token = await generateJWT({ userId: user.userId, username: user.username, role: user.role, sid: sessionId }, getJWTKeys(env)[0], ACCESS_TOKEN_TTL);
+
+  return { token, refreshToken, expiresIn: ACCESS_TOKEN_TTL };
+}
@@ -0,0 +1,63 @@
+/**
+ * 输入校验模块
+ * 用户名和密码规则，注册、修改密码、重置密码共用
+ */
+import type { ErrorCode } from './response';
+
+/**
+ * 弱密码正则模式
+ */
+const WEAK_PASSWORD_PATTERNS = [
+  /^(\d)\1{5,}$/, // 6位或以上相同数字 (如: 111111, 000000)
+  /^(.)\1{5,}$/, // 6位或以上相同字符 (如: aaaaaa)
+  /^123456\d*$/, // 以123456开头
+  /^\d*654321$/, // 以654321结尾
+  /^(012|123|234|345|456|567|678|789|890){2,}$/, // 连续数字重复
+  /^(abc|bcd|cde|def|efg|fgh|ghi|hij|ijk|jkl|klm|lmn|mno|nop|opq|pqr|qrs|rst|stu|tuv|uvw|vwx|wxy|xyz){2,}$/i, // 连续字母重复
+  /^(qwe|wer|ert|rty|tyu|yui|uio|iop|asd|sdf|dfg|fgh|ghj|hjk|jkl|zxc|xcv|cvb|vbn|bnm){2,}$/i, // 键盘序列重复
+  /^(password|admin|user|guest|test|demo)\d*$/i, // 常见单词+数字
+  /^\d{6,}$/, // 纯数字6位以上
+  /^[a-z]{6,}$/i, // 纯字母6位以上
+  /^(19|20)\d{2}(0[1-9]|1[0-2])(0[1-9]|[12]\d|3[01])$/, // 日期格式 (YYYYMMDD)
+  /^\d{4}(0[1-9]|1[0-2])(0[1-9]|[12]\d|3[01])$/, // 日期格式 (YYMMDD)
+];
+
+/**
+ * 常见弱密码列表作为补充
+ */
+const COMMON_WEAK_PASSWORDS = ['password', 'admin', 'user', 'guest', 'test', 'demo', 'root', 'login', 'welcome', 'qwerty', 'asdfgh', 'zxcvbn'];
+
+/**
+ * 校验用户名：至少3位字符，不能为纯数字
+ * @returns 错误码，校验通过时返回null
+ */
+export function validateUsername(username: string): ErrorCode | null {
+  if (username.length < 3) {
+    return 'USERNAME_TOO_SHORT';
+  }
+
+  if (/^\d+$/.test(username)) {
+    return 'USERNAME_NUMERIC';
+  }
+
+  return null;
+}
+
+/**
+ * 校验密码：至少6位，不能为常见弱密码
+ * @returns 错误码，校验通过时返回null
+ */
+export function validatePassword(password: string): ErrorCode | null {
+  if (password.length < 6) {
+    return 'PASSWORD_TOO_SHORT';
+  }
+
+  const lowerPassword = password.toLowerCase();
+
+  // 检查正则表达式模式和常见弱密码列表
+  if (WEAK_PASSWORD_PATTERNS.some(pattern => pattern.test(lowerPassword)) || COMMON_WEAK_PASSWORDS.includes(lowerPassword)) {
+    return 'PASSWORD_TOO_WEAK';
+  }
+
+  return null;
+}